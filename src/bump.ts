@@ -0,0 +1,128 @@
+/*
+ * MIT License
+ *
+ * Copyright (c) 2023 Ardalan Amini
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ *
+ */
+
+import { info } from "@actions/core";
+import { inc } from "semver";
+import { isPackageCommit } from "./package.js";
+import { type CommitI, provider } from "./providers/index.js";
+import { cancelledCommits } from "./revert.js";
+import { listVersionTags } from "./tag.js";
+import {
+  BUMP_TYPES,
+  bumpPreMajor,
+  bumpPrereleaseId,
+  type BumpTypeT,
+  bumpTypes,
+  cache,
+  formatTag,
+  parseCommitMessage,
+  semver,
+  sha,
+} from "./utils/index.js";
+
+/**
+ * Resolves the bump type of the commits, breaking changes bump the major version,
+ * the rest are bumped according to the bump types input (patch by default).
+ */
+async function resolveBumpType(commits: CommitI[]): Promise<BumpTypeT> {
+  const typeMap = bumpTypes();
+  const cancelled = cancelledCommits(commits);
+
+  let bumpType: BumpTypeT = "patch";
+
+  for (const commit of commits) {
+    const parsed = parseCommitMessage(commit.message);
+
+    if (parsed.merge || parsed.flags.includes("ignore") || cancelled.has(commit.sha)) continue;
+
+    // eslint-disable-next-line no-await-in-loop
+    if (!await isPackageCommit(commit, parsed.scope)) continue;
+
+    let commitBumpType: BumpTypeT = parsed.type in typeMap ? typeMap[parsed.type] : "patch";
+
+    if (parsed.breaking) commitBumpType = "major";
+
+    if (BUMP_TYPES.indexOf(commitBumpType) > BUMP_TYPES.indexOf(bumpType)) bumpType = commitBumpType;
+  }
+
+  return bumpType;
+}
+
+/**
+ * Computes the next version from the commits since the previous stable tag,
+ * and uses it as the release name from now on.
+ */
+export async function bumpVersion(): Promise<BumpI> {
+  if (!semver()) throw new Error("Expected semver to be enabled in bump mode.");
+
+  const history = provider();
+  const currentSha = sha();
+  const prereleaseId = bumpPrereleaseId();
+
+  const tags = (await listVersionTags()).filter(tag => tag.sha !== currentSha);
+
+  const previous = tags.find(tag => tag.version.prerelease.length === 0);
+
+  const commits = previous == null
+    ? await history.listCommits()
+    : await history.compareCommits(previous.sha, currentSha);
+
+  let bumpType = await resolveBumpType(commits);
+
+  const base = previous?.version.version ?? "0.0.0";
+
+  // Breaking changes only bump the minor version during the initial development (0.x)
+  if (bumpType === "major" && previous?.version.major === 0 && bumpPreMajor()) bumpType = "minor";
+
+  // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+  let version = inc(base, prereleaseId.length > 0 ? `pre${ bumpType }` : bumpType, prereleaseId)!;
+
+  if (prereleaseId.length > 0) {
+    const [core] = version.split("-");
+
+    // Continue the numbering of the existing prereleases of the same version & identifier (e.g. -develop.N)
+    const latest = tags.find(tag => tag.version.prerelease[0] === prereleaseId && tag.version.version.startsWith(`${ core }-`));
+
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    if (latest != null) version = inc(latest.version, "prerelease", prereleaseId)!;
+  }
+
+  // Keep the naming of the previous tag (e.g. the optional "v" prefix)
+  const name = previous == null ? formatTag(version) : previous.name.replace(previous.version.version, version);
+
+  info(`Bumping ${ previous?.name ?? "the initial version" } (${ bumpType }) to ${ name }`);
+
+  cache("release-name", () => name, true);
+
+  return {
+    bumpType,
+    name,
+  };
+}
+
+export interface BumpI {
+  bumpType: BumpTypeT;
+  name: string;
+}
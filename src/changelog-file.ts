@@ -0,0 +1,160 @@
+/*
+ * MIT License
+ *
+ * Copyright (c) 2023 Ardalan Amini
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ *
+ */
+
+import { writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { info } from "@actions/core";
+import {
+  changelogFile,
+  changelogFileBranch,
+  changelogFileCommit,
+  changelogFileMarker,
+  escapeRegExp,
+  octokit,
+  readWorkspaceFile,
+  releaseName,
+  repository,
+  workspace,
+} from "./utils/index.js";
+
+const DEFAULT_CONTENT = "# Changelog\n";
+
+const NOT_FOUND_STATUS = 404;
+
+/**
+ * Formats the release section, the changelog headings are shifted one level down to nest under the version heading.
+ */
+function formatSection(changelog: string): string {
+  const timestamp = (new Date).toISOString();
+
+  const [date] = timestamp.split("T");
+
+  const body = changelog.trim().replace(/^#{1,5} /gm, "#$&");
+
+  return `## ${ releaseName() } (${ date })\n\n${ body }\n\n`;
+}
+
+/**
+ * Inserts the section below the marker,
+ * or replaces the existing section of the same version instead.
+ */
+function insertSection(content: string, section: string): string {
+  const marker = changelogFileMarker();
+  const heading = new RegExp(`^## ${ escapeRegExp(releaseName()) }(?: |$)`, "m").exec(content);
+
+  if (heading != null) {
+    const start = heading.index;
+    const next = content.substring(start + heading[0].length).search(/^## /m);
+    const end = next < 0 ? content.length : start + heading[0].length + next;
+
+    return content.substring(0, start) + section + content.substring(end).replace(/^\n+/, "");
+  }
+
+  let index = content.indexOf(marker);
+
+  // Add the missing marker above the previous release sections
+  if (index < 0) {
+    const next = content.search(/^## /m);
+
+    index = next < 0 ? content.length : next;
+
+    content = [content.substring(0, index).trimEnd(), marker, content.substring(index)]
+      .filter(part => part.length > 0)
+      .join("\n\n");
+
+    index = content.indexOf(marker);
+  }
+
+  index += marker.length;
+
+  return `${ content.substring(0, index) }\n\n${ section }${ content.substring(index).replace(/^\n+/, "") }`;
+}
+
+async function commitFile(path: string, section: string): Promise<string> {
+  const { rest } = octokit();
+  const { owner, repo } = repository();
+
+  let branch = changelogFileBranch();
+
+  if (branch.length === 0) {
+    const { data } = await rest.repos.get({
+      owner,
+      repo,
+    });
+
+    branch = data.default_branch;
+  }
+
+  let content = DEFAULT_CONTENT;
+  let fileSha: string | undefined;
+
+  try {
+    const { data } = await rest.repos.getContent({
+      owner,
+      repo,
+      path,
+      ref: branch,
+    });
+
+    if (!("content" in data)) throw new Error(`Expected "${ path }" to be a file.`);
+
+    content = Buffer.from(data.content, "base64").toString("utf8");
+    fileSha = data.sha;
+  } catch (error) {
+    if ((error as { status?: number }).status !== NOT_FOUND_STATUS) throw error;
+  }
+
+  content = insertSection(content, section);
+
+  info(`Committing ${ path } to ${ branch }`);
+
+  await rest.repos.createOrUpdateFileContents({
+    owner,
+    repo,
+    branch,
+    content: Buffer.from(content).toString("base64"),
+    message: `chore(release): ${ releaseName() }`,
+    path,
+    sha    : fileSha,
+  });
+
+  return content;
+}
+
+export async function updateChangelogFile(changelog: string): Promise<void> {
+  const path = changelogFile();
+
+  if (path.length === 0) return;
+
+  const section = formatSection(changelog);
+
+  const content = changelogFileCommit()
+    ? await commitFile(path, section)
+    : insertSection(await readWorkspaceFile(path) ?? DEFAULT_CONTENT, section);
+
+  info(`Writing ${ path }`);
+
+  await writeFile(join(workspace(), path), content);
+}
@@ -0,0 +1,127 @@
+/*
+ * MIT License
+ *
+ * Copyright (c) 2023 Ardalan Amini
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ *
+ */
+
+import { writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { info } from "@actions/core";
+import { type ChangelogI } from "./changelog.js";
+import { type ContributorI, type NewContributorI } from "./contributors.js";
+import { type FooterI } from "./footer.js";
+import { type IssueReferenceI } from "./issues.js";
+import { type CommitAuthorI } from "./providers/index.js";
+import { type PullRequestI } from "./pull-requests.js";
+import { type ReleaseStatsI } from "./stats.js";
+import { type TagInfoI } from "./tag.js";
+import { changelogJsonFile, releaseName, workspace } from "./utils/index.js";
+
+const INDENTATION = 2;
+
+/**
+ * Flattens the changelog model into entries, each carrying its type & scope.
+ */
+function entries(changelog: ChangelogI): ChangelogEntryI[] {
+  return changelog.types.flatMap(({ title, scopes }) => scopes.flatMap(({ scope, logs }) => logs.map(log => ({
+    authors        : log.authors,
+    breaking       : log.breaking,
+    breakingChanges: log.breakingChanges,
+    commits        : log.commits,
+    description    : log.description,
+    issues         : log.issues,
+    prerelease     : log.prerelease,
+    pullRequests   : log.pullRequests,
+    scope          : scope.length > 0 ? scope : null,
+    title,
+    type           : log.type,
+  }))));
+}
+
+/**
+ * Serializes the changelog model as JSON, writing it to the `changelog-json-file` as well if provided.
+ */
+export async function generateChangelogJson(
+  changelog: ChangelogI,
+  footer: FooterI,
+  tagInfo: TagInfoI,
+): Promise<string> {
+  const changelogJson: ChangelogJsonI = {
+    commitCount    : changelog.commitCount,
+    contributors   : footer.contributors,
+    entries        : entries(changelog),
+    newContributors: footer.newContributors,
+    notice         : changelog.notice,
+    release        : {
+      compareUrl : footer.compareUrl,
+      prerelease : tagInfo.prerelease,
+      previousTag: changelog.previous?.name ?? null,
+      releaseId  : tagInfo.releaseId,
+      stats      : footer.stats,
+      version    : releaseName(),
+    },
+  };
+
+  const json = JSON.stringify(changelogJson, null, INDENTATION);
+
+  const path = changelogJsonFile();
+
+  if (path.length > 0) {
+    info(`Writing ${ path }`);
+
+    await writeFile(join(workspace(), path), `${ json }\n`);
+  }
+
+  return json;
+}
+
+export interface ChangelogJsonI {
+  commitCount: number;
+  contributors: ContributorI[];
+  entries: ChangelogEntryI[];
+  newContributors: NewContributorI[];
+  notice: string | null;
+  release: ReleaseMetadataI;
+}
+
+export interface ChangelogEntryI {
+  authors: CommitAuthorI[];
+  breaking: boolean;
+  breakingChanges: string[];
+  commits: string[];
+  description: string;
+  issues: IssueReferenceI[];
+  prerelease: string | null;
+  pullRequests: PullRequestI[];
+  scope: string | null;
+  title: string;
+  type: string;
+}
+
+export interface ReleaseMetadataI {
+  compareUrl: string | null;
+  prerelease: boolean;
+  previousTag: string | null;
+  releaseId: string;
+  stats: ReleaseStatsI;
+  version: string;
+}
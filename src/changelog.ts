@@ -24,598 +24,502 @@
  */
 
 import { debug, info, warning } from "@actions/core";
+import { isSameTree } from "./compare.js";
+import { filterCommits } from "./filter.js";
+import { extractIssues, type IssueReferenceI } from "./issues.js";
+import { isPackageCommit, isPackageTag } from "./package.js";
+import { type CommitAuthorI, type CommitI, provider, type TagI } from "./providers/index.js";
+import { associatedPullRequests, type PullRequestI } from "./pull-requests.js";
+import { cancelledCommits } from "./revert.js";
+import { listVersionTags, type TagInfoI } from "./tag.js";
 import {
+  annotatePrereleases,
+  audience,
+  commitFooters,
   commitTypes,
   defaultCommitType,
+  emptyRelease,
+  excludeLabels,
+  fetchPullRequests,
+  flagTypes,
   includeCommitLinks,
   includePRLinks,
+  labelTypes,
   mentionAuthors,
-  octokit,
+  noreplyLogin,
   parseCommitMessage,
+  type ParsedCommitMessageI,
+  parseSemVer,
   repository,
+  semver,
   sha,
+  SHORT_SHA_LENGTH,
+  unmatchedCommits,
   useGithubAutolink,
 } from "./utils/index.js";
 
-interface TypeGroupI {
-  scopes: ScopeGroupI[];
-  type: string;
-}
+const CO_AUTHOR_REGEX = /^(?<name>.*?)\s*<(?<email>[^>]*)>$/;
 
-interface ScopeGroupI {
-  logs: LogI[];
-  scope: string;
+interface CommitMetadataI {
+
+  /**
+   * The prerelease each commit first appeared in, keyed by commit SHA.
+   */
+  prereleases: Map<string, string>;
+
+  /**
+   * The pull request associated with each commit, keyed by commit SHA.
+   */
+  pullRequests: Map<string, PullRequestI>;
 }
 
-interface LogI {
-  breaking: boolean;
-  description: string;
-  references: string[];
+function unique(value: string[]): string[] {
+  return [...new Set(value)];
 }
 
-function trim<T extends string | undefined>(value: T): T {
-  // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
-  if (value == null) return value;
+function isSameAuthor(a: CommitAuthorI, b: CommitAuthorI): boolean {
+  if (a.login != null || b.login != null) return a.login === b.login;
+
+  if (a.email != null || b.email != null) return a.email === b.email;
 
-  return value.trim().replace(/ {2,}/g, " ") as never;
+  return a.name === b.name;
 }
 
-function unique(value: string[]): string[] {
-  return [...new Set(value)];
+/**
+ * Parses the `Co-authored-by: Name <email>` trailers of the commit.
+ */
+function coAuthors(parsed: ParsedCommitMessageI): CommitAuthorI[] {
+  return commitFooters(parsed, "Co-authored-by").map((value) => {
+    const groups = CO_AUTHOR_REGEX.exec(value)?.groups;
+
+    if (groups == null) return { name: value };
+
+    return {
+      email: groups.email,
+      login: noreplyLogin(groups.email),
+      name : groups.name,
+    };
+  });
 }
 
 function sortBy<T>(array: T[], property: keyof T): T[] {
   return array.sort((a, b) => (a[property] as string).localeCompare(b[property] as string));
 }
 
-// Helper function to generate the final changelog string
-function formatChangelog(typeGroups: TypeGroupI[], typeMap: Record<string, string>, defaultType: string): string {
-  const types = unique(Object.values(typeMap).concat(defaultType));
-  const changelog: string[] = [];
+/**
+ * Orders the type groups as the given titles and their scopes by name.
+ */
+function orderTypeGroups(typeGroups: TypeGroupI[], titles: string[]): TypeGroupI[] {
+  const ordered: TypeGroupI[] = [];
 
-  for (const type of types) {
-    const typeGroup = typeGroups.find(log => log.type === type);
+  for (const title of unique(titles)) {
+    const typeGroup = typeGroups.find(group => group.title === title);
 
     if (typeGroup == null) continue;
 
-    changelog.push(`## ${type}`);
-
     sortBy(typeGroup.scopes, "scope");
 
-    for (const { scope, logs } of typeGroup.scopes) {
-      let prefix = "";
-
-      if (scope.length > 0) {
-        changelog.push(`* **${scope}:**`);
+    ordered.push(typeGroup);
+  }
 
-        prefix = "  ";
-      }
+  return ordered;
+}
 
-      for (const { breaking, description, references } of logs) {
-        let line = `${prefix}* ${breaking ? "***breaking:*** " : ""}${description}`;
+/**
+ * Whether the associated pull requests are fetched, enriching the logs with their authors & co-authors.
+ */
+function shouldFetchPullRequests(): boolean {
+  return fetchPullRequests() || Object.keys(labelTypes()).length > 0;
+}
 
-        if (references.length > 0) line += ` (${references.join(", ")})`;
+/**
+ * Maps the commits of the aggregated prereleases to the prerelease they first appeared in.
+ */
+async function mapPrereleaseCommits(base: string, prereleases: TagI[]): Promise<Map<string, string>> {
+  const history = provider();
+  const map = new Map<string, string>;
 
-        changelog.push(line);
-      }
-    }
+  for (const prerelease of prereleases) {
+    // eslint-disable-next-line no-await-in-loop
+    for (const commit of await history.compareCommits(base, prerelease.sha)) map.set(commit.sha, prerelease.name);
 
-    changelog.push("");
+    base = prerelease.sha;
   }
 
-  return changelog.join("\n");
+  return map;
 }
 
 /**
- * Checks if two references (tags or SHAs) point to the same code state
- * using multiple approaches to ensure accuracy
+ * Groups the commits by their types & scopes.
  */
-async function areTagsEffectivelyIdentical(baseRef: string, headRef: string): Promise<boolean> {
-  try {
-    const { rest } = octokit();
-    const { owner, repo } = repository();
+async function groupCommits(commits: CommitI[], metadata: CommitMetadataI): Promise<TypeGroupI[]> {
+  const { url } = repository();
+  const defaultType = defaultCommitType();
+  const typeMap = commitTypes();
+  const labelMap = labelTypes();
+  const flagMap = flagTypes();
+  const isInternal = audience() === "internal";
+  const excludedLabels = excludeLabels();
+  const shouldIncludeCommitLinks = includeCommitLinks();
+  const shouldIncludePRLinks = includePRLinks();
+  const shouldMentionAuthors = mentionAuthors();
+  const shouldUseGithubAutolink = useGithubAutolink();
+  const unmatched = unmatchedCommits();
 
-    info(`🔍 [CHANGELOG] Checking identity between ${baseRef} and ${headRef}`);
+  const cancelled = cancelledCommits(commits);
+  const typeGroups: TypeGroupI[] = [];
+  const failedCommits: string[] = [];
+  let processedCommitCount = 0;
 
-    // Normalize references to handle development tags (v1.0.x-develop)
-    const normalizeRef = (ref: string): string => {
-      // Clean the ref to remove refs/* prefixes if they exist
-      const cleanRef = ref.replace(/^refs\/(tags|heads)\//, '');
-      return cleanRef;
-    };
+  for (const commit of commits) {
+    const { message } = commit;
+    let parsed;
 
-    const baseRefNormalized = normalizeRef(baseRef);
-    const headRefNormalized = normalizeRef(headRef);
-
-    info(`🔍 [CHANGELOG] Normalized references: ${baseRefNormalized} and ${headRefNormalized}`);
-
-    // Special case: Check if references represent sequential development versions
-    // Ex: v1.0.17-develop and v1.0.18-develop which are often identical
-    const devTagPattern = /^v(\d+)\.(\d+)\.(\d+)-develop$/;
-    const baseMatches = baseRefNormalized.match(devTagPattern);
-    const headMatches = headRefNormalized.match(devTagPattern);
-
-    if (baseMatches && headMatches) {
-      info(`🔍 [CHANGELOG] Development tags detected: ${baseRefNormalized} and ${headRefNormalized}`);
-
-      // If both are development tags, we'll do additional checks
-      try {
-        // First approach: Directly check comparison via API
-        const compareResult = await rest.repos.compareCommits({
-          owner,
-          repo,
-          base: baseRefNormalized,
-          head: headRefNormalized,
-        });
-
-        // Special checks for development tags:
-
-        // 1. If there are no differences, the API says ahead_by = 0 and behind_by = 0
-        if (compareResult.data.ahead_by === 0 && compareResult.data.behind_by === 0) {
-          info(`🔍 [CHANGELOG] GitHub API confirms references are identical (ahead_by = 0, behind_by = 0)`);
-          return true;
-        }
-
-        // 2. If there are only merges or empty commits, might have ahead_by > 0 but files_count = 0
-        if (compareResult.data.files?.length === 0) {
-          info(`🔍 [CHANGELOG] Comparison shows no file changes (files_count = 0)`);
-          return true;
-        }
-
-        // 3. Special status for the sequential tags issue
-        if (compareResult.data.status === "identical") {
-          info(`🔍 [CHANGELOG] API returns "identical" status`);
-          return true;
-        }
-      } catch (error) {
-        info(`🔍 [CHANGELOG] Error during special check for development tags: ${error instanceof Error ? error.message : String(error)}`);
-      }
+    try {
+      parsed = parseCommitMessage(message);
+    } catch (error) {
+      debug(`Failed to parse commit message: ${error instanceof Error ? error.message : String(error)}`);
+      debug(`Skipping commit "${message}"`);
 
-      // Additional check for sequential development tags (v1.0.x-develop)
-      // Extract version numbers
-      const [_, baseMajor, baseMinor, basePatch] = baseMatches.map(Number);
-      const [__, headMajor, headMinor, headPatch] = headMatches.map(Number);
-
-      // If versions are sequential (only patch changes by +1)
-      if (baseMajor === headMajor && baseMinor === headMinor &&
-          Math.abs(headPatch - basePatch) === 1) {
-        info(`🔍 [CHANGELOG] Sequential development tags detected: ${baseRefNormalized} and ${headRefNormalized}`);
-
-        try {
-          // Get the real commit SHAs for the tags
-          const baseTagData = await rest.git.getRef({
-            owner,
-            repo,
-            ref: `tags/${baseRefNormalized}`
-          }).catch(() => rest.git.getRef({
-            owner,
-            repo,
-            ref: `heads/${baseRefNormalized}`
-          }));
-
-          const headTagData = await rest.git.getRef({
-            owner,
-            repo,
-            ref: `tags/${headRefNormalized}`
-          }).catch(() => rest.git.getRef({
-            owner,
-            repo,
-            ref: `heads/${headRefNormalized}`
-          }));
-
-          // Get the complete tag objects (which may point to tags or commits)
-          if (baseTagData && headTagData) {
-            const baseTagSha = baseTagData.data.object.sha;
-            const headTagSha = headTagData.data.object.sha;
-
-            // For sequential tags, if they point to the same object, they are identical
-            if (baseTagSha === headTagSha) {
-              info(`🔍 [CHANGELOG] Sequential tags point to the same object: ${baseTagSha}`);
-              return true;
-            }
-
-            // Check if they are annotated or lightweight tags
-            const baseTagType = baseTagData.data.object.type;
-            const headTagType = headTagData.data.object.type;
-
-            // For annotated tags, we need to get the commit they point to
-            let baseCommitSha = baseTagSha;
-            let headCommitSha = headTagSha;
-
-            if (baseTagType === 'tag') {
-              const baseTagObject = await rest.git.getTag({
-                owner,
-                repo,
-                tag_sha: baseTagSha
-              });
-              baseCommitSha = baseTagObject.data.object.sha;
-            }
-
-            if (headTagType === 'tag') {
-              const headTagObject = await rest.git.getTag({
-                owner,
-                repo,
-                tag_sha: headTagSha
-              });
-              headCommitSha = headTagObject.data.object.sha;
-            }
-
-            // If commit SHAs are equal, tags are identical
-            if (baseCommitSha === headCommitSha) {
-              info(`🔍 [CHANGELOG] Sequential tags point to the same commit: ${baseCommitSha}`);
-              return true;
-            }
-
-            // Get the commits
-            const baseCommit = await rest.git.getCommit({
-              owner,
-              repo,
-              commit_sha: baseCommitSha
-            });
-
-            const headCommit = await rest.git.getCommit({
-              owner,
-              repo,
-              commit_sha: headCommitSha
-            });
-
-            // Compare tree SHAs - two tags that have the same tree SHA have the same code state
-            if (baseCommit.data.tree.sha === headCommit.data.tree.sha) {
-              info(`🔍 [CHANGELOG] Sequential tags have identical trees: ${baseCommit.data.tree.sha}`);
-              return true;
-            }
-          }
-        } catch (error) {
-          info(`🔍 [CHANGELOG] Error comparing tag trees: ${error instanceof Error ? error.message : String(error)}`);
-        }
-      }
+      continue;
     }
 
-    // Standard check for all references
-    try {
-      // First approach: Check comparison directly via API
-      const compareResult = await rest.repos.compareCommits({
-        owner,
-        repo,
-        base: baseRef,
-        head: headRef,
-      });
-
-      // If no differences, API says ahead_by = 0 and behind_by = 0
-      if (compareResult.data.ahead_by === 0 && compareResult.data.behind_by === 0) {
-        info(`🔍 [CHANGELOG] GitHub API confirms references are identical (ahead_by = 0, behind_by = 0)`);
-        return true;
-      }
+    // Skip merge commits and the commits cancelled out by their reverts
+    if (parsed.merge || cancelled.has(commit.sha)) continue;
 
-      // If only merges or empty commits, might have ahead_by > 0 but files_count = 0
-      if (compareResult.data.files?.length === 0) {
-        info(`🔍 [CHANGELOG] Comparison shows no file changes (files_count = 0)`);
-        return true;
-      }
+    const { flags } = parsed;
+
+    if (flags.includes("ignore") || (flags.includes("internal") && !isInternal)) continue;
+
+    // eslint-disable-next-line no-await-in-loop
+    if (!await isPackageCommit(commit, parsed.scope)) continue;
+
+    let pullRequest = metadata.pullRequests.get(commit.sha) ?? null;
+
+    // The pull request number of the commit message takes precedence
+    if (parsed.pr && pullRequest?.number !== +parsed.pr) {
+      pullRequest = {
+        author  : null,
+        labels  : [],
+        mergedBy: null,
+        number  : +parsed.pr,
+        title   : null,
+      };
+    }
+
+    const labels = pullRequest?.labels ?? [];
 
-      // If status is identical, they are identical (even if ahead_by > 0)
-      if (compareResult.data.status === "identical") {
-        info(`🔍 [CHANGELOG] API returns "identical" status`);
-        return true;
+    if (labels.some(label => excludedLabels.includes(label))) continue;
+
+    // The flags take precedence over the pull request labels, which take precedence over the commit type
+    const flag = flags.find(item => item in flagMap);
+    const label = labels.find(item => item in labelMap);
+
+    const section = flag == null ? label && labelMap[label] : flagMap[flag];
+
+    let type = parsed.type in typeMap ? typeMap[parsed.type] : null;
+
+    if (section != null) {
+      type = section;
+
+      if (parsed.type.length === 0) parsed.description = pullRequest?.title ?? parsed.description;
+    } else if (parsed.type.length === 0 || type == null) {
+      // Commits not matching any of the commit types (including non-conventional ones)
+      if (unmatched === "drop") continue;
+
+      if (unmatched === "fail") {
+        failedCommits.push(`${ commit.sha.substring(0, SHORT_SHA_LENGTH) } "${ parsed.header }"`);
+
+        continue;
       }
-    } catch (error) {
-      info(`🔍 [CHANGELOG] Error comparing references via API: ${error instanceof Error ? error.message : String(error)}`);
+
+      type = defaultType;
     }
 
-    // Second approach: Compare tree SHAs directly
-    try {
-      // Resolve references to get the real SHAs
-      const resolveRef = async (ref: string) => {
-        try {
-          // Try as tag
-          const tagRef = await rest.git.getRef({
-            owner,
-            repo,
-            ref: `tags/${ref.replace(/^refs\/tags\//, '')}`
-          }).catch(() => null);
-
-          if (tagRef) return tagRef;
-
-          // Try as branch
-          const branchRef = await rest.git.getRef({
-            owner,
-            repo,
-            ref: `heads/${ref.replace(/^refs\/heads\//, '')}`
-          }).catch(() => null);
-
-          if (branchRef) return branchRef;
-
-          // Try as direct SHA
-          return rest.git.getCommit({
-            owner,
-            repo,
-            commit_sha: ref
-          });
-        } catch (e) {
-          return null;
-        }
+    processedCommitCount++;
+
+    const { scope, description, breaking, breakingChanges } = parsed;
+
+    const pr = pullRequest?.number;
+
+    const authors = [commit.author];
+
+    if (shouldFetchPullRequests()) {
+      if (pullRequest?.author != null) authors.push({ login: pullRequest.author });
+
+      authors.push(...coAuthors(parsed));
+    }
+
+    let typeGroup = typeGroups.find(group => group.title === type);
+
+    if (typeGroup == null) {
+      typeGroup = {
+        scopes: [],
+        title : type,
       };
 
-      const baseRefData = await resolveRef(baseRef);
-      const headRefData = await resolveRef(headRef);
-
-      if (baseRefData && headRefData) {
-        // If both are refs, compare the SHAs they point to
-        if ('object' in baseRefData.data && 'object' in headRefData.data) {
-          const baseSha = baseRefData.data.object.sha;
-          const headSha = headRefData.data.object.sha;
-
-          if (baseSha === headSha) {
-            info(`🔍 [CHANGELOG] Refs point to the same SHA: ${baseSha}`);
-            return true;
-          }
-
-          // If different objects, check their trees
-          const baseCommit = await rest.git.getCommit({
-            owner,
-            repo,
-            commit_sha: baseSha
-          }).catch(() => null);
-
-          const headCommit = await rest.git.getCommit({
-            owner,
-            repo,
-            commit_sha: headSha
-          }).catch(() => null);
-
-          if (baseCommit && headCommit &&
-              baseCommit.data.tree.sha === headCommit.data.tree.sha) {
-            info(`🔍 [CHANGELOG] Commits have the same tree SHA: ${baseCommit.data.tree.sha}`);
-            return true;
-          }
-        }
-      }
-    } catch (error) {
-      info(`🔍 [CHANGELOG] Error comparing trees: ${error instanceof Error ? error.message : String(error)}`);
+      typeGroups.push(typeGroup);
     }
 
-    info(`🔍 [CHANGELOG] References are different after multiple checks`);
-    return false;
-  } catch (error) {
-    info(`🔍 [CHANGELOG] Global error when checking identity: ${error instanceof Error ? error.message : String(error)}`);
-    return false; // In case of error, assume they're different for safety
-  }
-}
+    let scopeGroup = typeGroup.scopes.find(log => log.scope === scope);
 
-export async function generateChangelog(lastSha?: string): Promise<string> {
-  const { paginate, rest } = octokit();
-  const { owner, repo, url } = repository();
-  const defaultType = defaultCommitType();
-  const typeMap = commitTypes();
-  const shouldIncludeCommitLinks = includeCommitLinks();
-  const shouldIncludePRLinks = includePRLinks();
-  const shouldMentionAuthors = mentionAuthors();
-  const shouldUseGithubAutolink = useGithubAutolink();
+    if (scopeGroup == null) {
+      scopeGroup = {
+        scope,
+        logs: [],
+      };
 
-  // Fixed: Using paginate correctly with the new API structure
-  const tags = await paginate(rest.repos.listTags, {
-    owner,
-    repo,
-    per_page: 100,
-  });
+      typeGroup.scopes.push(scopeGroup);
+    }
 
-  let targetSha = lastSha;
-  let initialAttemptWithLastSha = !!lastSha;
-  let retryCount = 0;
-  const MAX_RETRIES = 5; // Limit to avoid infinite loops
-
-  // Continue iterating when tags are effectively identical
-  while (retryCount < MAX_RETRIES) {
-    info(`🔍 [CHANGELOG] Attempt ${retryCount + 1} to generate changelog${targetSha ? ` starting from ${targetSha.substring(0, 7)}` : ''}`);
-
-    let commits: any[] = [];
-
-    if (targetSha) {
-      const currentSha = sha();
-
-      // Check if tags are effectively identical
-      if (await areTagsEffectivelyIdentical(targetSha, currentSha)) {
-        info(`🔍 [CHANGELOG] Tags are effectively identical: ${targetSha.substring(0, 7)} and ${currentSha.substring(0, 7)}`);
-
-        // Find the next tag in history to continue iteration
-        const currentTagIndex = tags.findIndex(tag => tag.commit.sha === currentSha);
-        const previousTagIndex = tags.findIndex(tag => tag.commit.sha === targetSha);
-
-        // If both tags are in history and are close, continue to the next
-        if (currentTagIndex >= 0 && previousTagIndex >= 0) {
-          const nextTagIndex = Math.max(previousTagIndex, currentTagIndex) + 1;
-
-          if (nextTagIndex < tags.length) {
-            targetSha = tags[nextTagIndex].commit.sha;
-            info(`🔍 [CHANGELOG] Continuing to next tag: ${tags[nextTagIndex].name} (${targetSha.substring(0, 7)})`);
-            retryCount++;
-            continue;
-          }
-        }
-
-        // If we can't find a next tag, try using the parent commit
-        try {
-          const commit = await rest.git.getCommit({
-            owner,
-            repo,
-            commit_sha: targetSha,
-          });
-
-          if (commit.data.parents.length > 0) {
-            targetSha = commit.data.parents[0].sha;
-            info(`🔍 [CHANGELOG] Continuing to parent commit: ${targetSha.substring(0, 7)}`);
-            retryCount++;
-            continue;
-          }
-        } catch (error) {
-          info(`🔍 [CHANGELOG] Error getting parent commit: ${error instanceof Error ? error.message : String(error)}`);
-        }
-      }
+    let log = scopeGroup.logs.find(record => record.description === description);
+
+    if (log == null) {
+      log = {
+        authors        : [],
+        breaking,
+        breakingChanges: [],
+        commits        : [],
+        description,
+        issues         : [],
+        prerelease     : metadata.prereleases.get(commit.sha) ?? null,
+        pullRequests   : [],
+        references     : [],
+        type           : flag ?? label ?? parsed.type,
+      };
 
-      info(`🔍 [CHANGELOG] Getting commits between ${targetSha.substring(0, 7)} and ${currentSha.substring(0, 7)}`);
-
-      try {
-        // Fixed: Adjusted to work with the new response type
-        const compareResult = await rest.repos.compareCommits({
-          owner,
-          repo,
-          base: targetSha,
-          head: currentSha,
-          per_page: 100,
-        });
-
-        // Access commits directly from response object
-        commits = compareResult.data.commits;
-      } catch (error) {
-        // If failed with lastSha, try with all commits
-        warning(`Failed to compare commits: ${error instanceof Error ? error.message : String(error)}`);
-
-        if (initialAttemptWithLastSha) {
-          info("Falling back to all commits...");
-          targetSha = undefined;
-          initialAttemptWithLastSha = false;
-          continue;
-        }
-
-        throw error;
-      }
-    } else {
-      info("🔍 [CHANGELOG] Getting all commits (no reference SHA provided)");
+      scopeGroup.logs.push(log);
+    }
 
-      const response = await paginate(rest.repos.listCommits, {
-        owner,
-        repo,
-        per_page: 100,
-      });
+    log.breaking ||= breaking;
+    log.breakingChanges = unique(log.breakingChanges.concat(breakingChanges));
 
-      commits = response;
+    log.commits.push(commit.sha);
+
+    for (const issue of extractIssues(message)) {
+      const existing = log.issues.find(item => item.key === issue.key);
+
+      if (existing == null) log.issues.push(issue);
+      else existing.closing ||= issue.closing;
     }
 
-    const typeGroups: TypeGroupI[] = [];
-    let commitCount = 0;
-    let processedCommitCount = 0;
+    if (pullRequest != null && !log.pullRequests.some(item => item.number === pr)) log.pullRequests.push(pullRequest);
+
+    for (const author of authors) if (!log.authors.some(item => isSameAuthor(item, author))) log.authors.push(author);
+
+    const reference: string[] = [];
+
+    if (pr && shouldIncludePRLinks) reference.push(shouldUseGithubAutolink ? `#${pr}` : `[#${pr}](${url}/issues/${pr})`);
+    else if (shouldIncludeCommitLinks) reference.push(shouldUseGithubAutolink ? commit.sha : `[${ commit.sha.substring(0, SHORT_SHA_LENGTH) }](${ url }/commit/${ commit.sha })`);
 
-    for (const commit of commits) {
-      commitCount++;
-      const { message } = commit.commit;
-      let parsed;
+    const usernames = unique(authors.flatMap(author => author.login ?? []));
 
-      try {
-        parsed = parseCommitMessage(message);
-      } catch (error) {
-        debug(`Failed to parse commit message: ${error instanceof Error ? error.message : String(error)}`);
-        debug(`Skipping commit "${message}"`);
+    if (usernames.length > 0 && shouldMentionAuthors) {
+      const mention = `by ${ usernames.map(username => `@${ username }`).join(", ") }`;
+
+      reference.push(mention);
+
+      const lastReference = log.references[log.references.length - 1];
+
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+      if (lastReference?.endsWith(mention)) {
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+        log.references.push(log.references.pop()!.replace(mention, `& ${reference.join(" ")}`));
 
         continue;
       }
+    }
 
-      // Skip merge commits and revert commits
-      if (parsed == null || parsed.merge || parsed.revert) continue;
+    if (reference.length > 0) log.references.push(reference.join(" "));
+  }
 
-      const { type } = parsed;
+  if (failedCommits.length > 0) throw new Error(`Commits matching none of the commit types:\n${ failedCommits.join("\n") }`);
 
-      // Skip if type is not valid in typeMap
-      if (type.length === 0 || !(type in typeMap)) continue;
+  info(`🔍 [CHANGELOG] Commits analyzed: ${ commits.length }`);
+  info(`🔍 [CHANGELOG] Commits included in changelog: ${ processedCommitCount }`);
 
-      processedCommitCount++;
+  return orderTypeGroups(typeGroups, [
+    ...Object.values(flagMap),
+    ...Object.values(labelMap),
+    ...Object.values(typeMap),
+    defaultType,
+  ]);
+}
 
-      const { scope, description, breaking, pr } = parsed;
+/**
+ * Lists the tags older than the previous one, to skip to in case of an empty release.
+ * In semver mode, the older versions of the same channel (stable or prerelease) are listed from the newest.
+ */
+async function listOlderTags(previous: TagI): Promise<TagI[]> {
+  const previousVersion = semver() ? parseSemVer(previous.name) : null;
+
+  if (previousVersion != null) {
+    const isPrerelease = previousVersion.prerelease.length > 0;
+
+    return (await listVersionTags())
+      .filter(({ sha: tagSha, version }) => tagSha !== sha()
+        && version.compare(previousVersion) < 0
+        && (version.prerelease.length > 0) === isPrerelease)
+      .map(({ name, sha: tagSha }) => ({
+        name,
+        sha: tagSha,
+      }));
+  }
 
-      let typeGroup = typeGroups.find(log => log.type === typeMap[type]);
+  const tags: TagI[] = [];
 
-      if (typeGroup == null) {
-        typeGroup = {
-          type: typeMap[type],
-          scopes: [],
-        };
+  let found = false;
 
-        typeGroups.push(typeGroup);
-      }
+  for await (const tag of provider().listTags()) {
+    if (tag.name === previous.name) found = true;
 
-      let scopeGroup = typeGroup.scopes.find(log => log.scope === scope);
+    if (!found || tag.name === previous.name || tag.sha === sha() || !isPackageTag(tag.name)) continue;
 
-      if (scopeGroup == null) {
-        scopeGroup = {
-          scope,
-          logs: [],
-        };
+    tags.push(tag);
+  }
 
-        typeGroup.scopes.push(scopeGroup);
-      }
+  return tags;
+}
 
-      let log = scopeGroup.logs.find(record => record.description === description);
+async function listCommits(previous: TagI | null): Promise<CommitI[]> {
+  const history = provider();
 
-      if (log == null) {
-        log = {
-          breaking,
-          description,
-          references: [],
-        };
+  if (previous == null) {
+    info("🔍 [CHANGELOG] Getting all commits (no previous tag found)");
 
-        scopeGroup.logs.push(log);
-      }
+    return history.listCommits();
+  }
 
-      const reference: string[] = [];
+  info(`🔍 [CHANGELOG] Getting commits between ${ previous.name } and ${ sha().substring(0, SHORT_SHA_LENGTH) }`);
 
-      if (pr && shouldIncludePRLinks) reference.push(shouldUseGithubAutolink ? `#${pr}` : `[#${pr}](${url}/issues/${pr})`);
-      else if (shouldIncludeCommitLinks) reference.push(shouldUseGithubAutolink ? commit.sha : `[${commit.sha.substring(0, 7)}](${url}/commit/${commit.sha})`);
+  try {
+    return await history.compareCommits(previous.sha, sha());
+  } catch (error) {
+    warning(`Failed to compare commits: ${ error instanceof Error ? error.message : String(error) }`);
 
-      const username = commit.author?.login;
+    info("Falling back to all commits...");
+
+    return history.listCommits();
+  }
+}
 
-      if (username && shouldMentionAuthors) {
-        const mention = `by @${username}`;
+export async function generateChangelog(tagInfo: TagInfoI): Promise<ChangelogI> {
+  const mode = emptyRelease();
 
-        reference.push(mention);
+  let previous = tagInfo.previous ?? null;
 
-        const lastReference = log.references[log.references.length - 1];
+  const prereleaseCommits = previous != null && tagInfo.prereleases.length > 0 && annotatePrereleases()
+    ? await mapPrereleaseCommits(previous.sha, tagInfo.prereleases)
+    : new Map<string, string>;
 
-        // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
-        if (lastReference?.endsWith(mention)) {
-          // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-          log.references.push(log.references.pop()!.replace(mention, `& ${reference.join(" ")}`));
+  let olderTags: TagI[] | null = null;
 
-          continue;
-        }
-      }
+  for (;;) {
+    let commits: CommitI[] = [];
 
-      if (reference.length > 0) log.references.push(reference.join(" "));
+    // eslint-disable-next-line no-await-in-loop
+    if (previous != null && await isSameTree(previous.sha, sha())) {
+      info(`🔍 [CHANGELOG] ${ previous.name } has the same tree as the current commit`);
+    } else {
+      // eslint-disable-next-line no-await-in-loop
+      commits = await listCommits(previous);
     }
 
-    // If no commits were processed, try again with the next tag if we're in retry mode
-    if (processedCommitCount === 0 && retryCount > 0 && retryCount < MAX_RETRIES) {
-      // Try to find a previous tag to retry
-      const currentTagIndex = tags.findIndex(tag => tag.commit.sha === targetSha);
+    // eslint-disable-next-line no-await-in-loop
+    const included = await filterCommits(commits);
 
-      if (currentTagIndex >= 0 && currentTagIndex + 1 < tags.length) {
-        targetSha = tags[currentTagIndex + 1].commit.sha;
-        info(`🔍 [CHANGELOG] No processed commits, trying with next tag: ${tags[currentTagIndex + 1].name} (${targetSha.substring(0, 7)})`);
-        retryCount++;
-        continue;
-      }
-    }
+    let pullRequests = new Map<string, PullRequestI>;
+
+    // eslint-disable-next-line no-await-in-loop
+    if (included.length > 0 && shouldFetchPullRequests()) pullRequests = await associatedPullRequests(included);
+
+    // eslint-disable-next-line no-await-in-loop
+    const types = await groupCommits(included, {
+      prereleases: prereleaseCommits,
+      pullRequests,
+    });
 
-    // If no commits were processed, return message indicating no significant changes
-    if (processedCommitCount === 0 && lastSha) {
-      info(`🔍 [CHANGELOG] No significant changes found for changelog (all commits were filtered)`);
-      return "## No significant changes in this release\n\n**Full Changelog**: " +
-            `${url}/compare/${encodeURIComponent(lastSha)}...${encodeURIComponent(sha())}`;
+    if (types.length > 0) {
+      return {
+        commitCount: commits.length,
+        commits    : included,
+        notice     : null,
+        previous,
+        pullRequests,
+        types,
+      };
     }
 
-    info(`🔍 [CHANGELOG] Changelog generation completed with legacy method`);
-    info(`🔍 [CHANGELOG] Commits analyzed: ${commitCount}`);
-    info(`🔍 [CHANGELOG] Commits included in changelog: ${processedCommitCount}`);
+    info("🔍 [CHANGELOG] No significant changes found for changelog (all commits were filtered)");
 
-    if (lastSha) {
-      info(`🔍 [CHANGELOG] Comparison: From SHA ${lastSha.substring(0, 7)} to ${sha().substring(0, 7)}`);
-    } else {
-      info(`🔍 [CHANGELOG] No previous SHA found for comparison, included all accessible commits`);
+    if (mode === "fail") throw new Error(`Expected the release to contain changes since ${ previous?.name ?? "the first commit" }, got none.`);
+
+    if (mode === "skip" && previous != null) {
+      // eslint-disable-next-line no-await-in-loop
+      olderTags ??= await listOlderTags(previous);
+
+      const olderTag = olderTags.shift();
+
+      if (olderTag != null) {
+        info(`🔍 [CHANGELOG] Skipping to the older tag ${ olderTag.name }`);
+
+        previous = olderTag;
+
+        continue;
+      }
     }
 
-    return formatChangelog(typeGroups, typeMap, defaultType);
+    return {
+      commitCount: commits.length,
+      commits    : included,
+      notice     : "## No significant changes in this release",
+      previous,
+      pullRequests,
+      types      : [],
+    };
   }
+}
+
+export interface ChangelogI {
+  commitCount: number;
+
+  /**
+   * The commits of the release range, after the commit filters.
+   */
+  commits: CommitI[];
+  notice: string | null;
+
+  /**
+   * The tag the release is compared against (it might be an older tag than the selected one in case of skipping).
+   */
+  previous: TagI | null;
+  pullRequests: Map<string, PullRequestI>;
+  types: TypeGroupI[];
+}
+
+export interface TypeGroupI {
+  scopes: ScopeGroupI[];
+  title: string;
+}
 
-  // If we got here, we reached the retry limit
-  info(`🔍 [CHANGELOG] Reached limit of ${MAX_RETRIES} attempts to generate a valid changelog`);
-  return "## Unable to generate changelog after multiple attempts\n\n" +
-         "No significant changes could be found between the compared versions after multiple attempts.";
+export interface ScopeGroupI {
+  logs: LogI[];
+  scope: string;
+}
+
+export interface LogI {
+  authors: CommitAuthorI[];
+  breaking: boolean;
+  breakingChanges: string[];
+  commits: string[];
+  description: string;
+  issues: IssueReferenceI[];
+
+  /**
+   * The prerelease the log first appeared in (aggregated stable releases only).
+   */
+  prerelease: string | null;
+  pullRequests: PullRequestI[];
+  references: string[];
+  type: string;
 }
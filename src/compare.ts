@@ -0,0 +1,50 @@
+/*
+ * MIT License
+ *
+ * Copyright (c) 2023 Ardalan Amini
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ *
+ */
+
+import { type CommitI, provider } from "./providers/index.js";
+import { cache } from "./utils/index.js";
+
+/**
+ * Resolves the ref (SHA, branch or tag, peeling the annotated tags) to its commit, memoized per ref.
+ */
+export async function resolveCommit(ref: string): Promise<CommitI> {
+  return cache(`commit-${ ref }`, async () => provider().getCommit(ref));
+}
+
+/**
+ * Lists the files changed by the commit, memoized per commit.
+ */
+export async function listCommitFiles(sha: string): Promise<string[]> {
+  return cache(`files-${ sha }`, async () => provider().listFiles(sha));
+}
+
+/**
+ * Checks if the two refs point to the same code state (the same tree), regardless of their history.
+ */
+export async function isSameTree(base: string, head: string): Promise<boolean> {
+  const [baseCommit, headCommit] = await Promise.all([resolveCommit(base), resolveCommit(head)]);
+
+  return baseCommit.tree === headCommit.tree;
+}
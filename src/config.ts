@@ -0,0 +1,92 @@
+/*
+ * MIT License
+ *
+ * Copyright (c) 2023 Ardalan Amini
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ *
+ */
+
+import { getInput, info } from "@actions/core";
+import {
+  configFile,
+  DEFAULT_CONFIG_FILE,
+  defaultInput,
+  loadConfig,
+  octokit,
+  readWorkspaceFile,
+  repository,
+  sha,
+} from "./utils/index.js";
+
+const NOT_FOUND_STATUS = 404;
+
+/**
+ * Fetches the file content at the current commit with the contents API (when the repository isn't checked out).
+ */
+async function fetchFile(path: string): Promise<string | null> {
+  const { owner, repo } = repository();
+
+  try {
+    const { data } = await octokit().rest.repos.getContent({
+      owner,
+      repo,
+      path,
+      ref: sha(),
+    });
+
+    if (!("content" in data)) throw new Error(`Expected "${ path }" to be a file.`);
+
+    return Buffer.from(data.content, "base64").toString("utf8");
+  } catch (error) {
+    if ((error as { status?: number }).status === NOT_FOUND_STATUS) return null;
+
+    throw error;
+  }
+}
+
+/**
+ * Whether the repository contents can be fetched with the API (the git history provider might run offline).
+ * The history-provider input is read as is, since the config file isn't loaded yet.
+ */
+function isGithubProvider(): boolean {
+  return (getInput("history-provider") || defaultInput("history-provider")) === "github";
+}
+
+/**
+ * Loads the config file (from the workspace, or the repository contents otherwise) for the inputs to fall back to.
+ * The default config file is optional, unlike the one set with the config-file input.
+ */
+export async function readConfigFile(): Promise<void> {
+  const path = configFile();
+  const file = path.length > 0 ? path : DEFAULT_CONFIG_FILE;
+  let content = await readWorkspaceFile(file);
+
+  if (content == null && (path.length > 0 || isGithubProvider())) content = await fetchFile(file);
+
+  if (content == null) {
+    if (path.length > 0) throw new Error(`Expected the config file "${ path }" to exist, got none.`);
+
+    return;
+  }
+
+  info(`Loading the config from ${ file }`);
+
+  loadConfig(file, content);
+}
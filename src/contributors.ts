@@ -0,0 +1,153 @@
+/*
+ * MIT License
+ *
+ * Copyright (c) 2023 Ardalan Amini
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ *
+ */
+
+import { info } from "@actions/core";
+import { type ChangelogI } from "./changelog.js";
+import { type CommitAuthorI, provider } from "./providers/index.js";
+import { parseCommitMessage } from "./utils/index.js";
+
+const BOT_REGEX = /\[bot]$/i;
+
+const BOT_EMAIL_REGEX = /\[bot]@users\.noreply\.github\.com$/i;
+
+function isBot(author: CommitAuthorI): boolean {
+  const { email, login, name } = author;
+
+  if ([login, name].some(item => item != null && BOT_REGEX.test(item))) return true;
+
+  return email != null && BOT_EMAIL_REGEX.test(email);
+}
+
+/**
+ * Identifies the author by login, falling back to email (the email-only authors) then name.
+ */
+function identity(author: CommitAuthorI): string | null {
+  return author.login?.toLowerCase() ?? author.email?.toLowerCase() ?? author.name ?? null;
+}
+
+function pullRequestNumber(changelog: ChangelogI, sha: string, message: string): number | null {
+  const pullRequest = changelog.pullRequests.get(sha);
+
+  if (pullRequest != null) return pullRequest.number;
+
+  try {
+    const { pr } = parseCommitMessage(message);
+
+    return pr ? +pr : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Lists the contributors of the release (the commit authors, bots excluded) along with their commit counts,
+ * the most active first.
+ */
+export function listContributors(changelog: ChangelogI): ContributorI[] {
+  const list = new Map<string, ContributorI>;
+
+  for (const { author } of changelog.commits) {
+    const key = identity(author);
+
+    if (key == null || isBot(author)) continue;
+
+    const contributor = list.get(key);
+
+    if (contributor == null) {
+      list.set(key, {
+        ...author,
+        commits: 1,
+      });
+
+      continue;
+    }
+
+    contributor.commits++;
+  }
+
+  return [...list.values()].sort((a, b) => b.commits - a.commits);
+}
+
+/**
+ * Lists the first-time contributors of the release: the commit (and pull request) authors of the release range
+ * having no commits in the history of the previous tag, bots excluded.
+ */
+export async function newContributors(changelog: ChangelogI): Promise<NewContributorI[]> {
+  const candidates = new Map<string, NewContributorI>;
+
+  for (const commit of changelog.commits) {
+    const pullRequest = pullRequestNumber(changelog, commit.sha, commit.message);
+    const pullRequestAuthor = changelog.pullRequests.get(commit.sha)?.author;
+    const authors: CommitAuthorI[] = [commit.author];
+
+    if (pullRequestAuthor != null) authors.push({ login: pullRequestAuthor });
+
+    for (const author of authors) {
+      const key = identity(author);
+
+      if (key == null || candidates.has(key) || isBot(author)) continue;
+
+      candidates.set(key, {
+        ...author,
+        pullRequest,
+        sha: commit.sha,
+      });
+    }
+  }
+
+  const { previous } = changelog;
+
+  // Every contributor is a first-time one without any previous tag
+  if (previous == null) return [...candidates.values()];
+
+  const history = provider();
+  const contributors: NewContributorI[] = [];
+
+  for (const candidate of candidates.values()) {
+    // eslint-disable-next-line no-await-in-loop
+    if (!await history.hasContributed(candidate, previous.sha)) contributors.push(candidate);
+  }
+
+  info(`🔍 [CHANGELOG] New contributors: ${ contributors.length }`);
+
+  return contributors;
+}
+
+export interface NewContributorI extends CommitAuthorI {
+
+  /**
+   * The pull request of the first contribution, if any.
+   */
+  pullRequest: number | null;
+
+  /**
+   * The commit of the first contribution.
+   */
+  sha: string;
+}
+
+export interface ContributorI extends CommitAuthorI {
+  commits: number;
+}
@@ -0,0 +1,145 @@
+/*
+ * MIT License
+ *
+ * Copyright (c) 2023 Ardalan Amini
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ *
+ */
+
+import { info } from "@actions/core";
+import { listCommitFiles } from "./compare.js";
+import { type CommitI } from "./providers/index.js";
+import {
+  commitFilters,
+  type CommitFilterI,
+  commitFooters,
+  parseCommitMessage,
+  type ParsedCommitMessageI,
+} from "./utils/index.js";
+
+interface CandidateI {
+  commit: CommitI;
+  parsed: ParsedCommitMessageI | null;
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value ?? "").split(",")
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+}
+
+function isUnderPaths(file: string, paths: string[]): boolean {
+  return paths.some(path => file === path || file.startsWith(`${ path }/`));
+}
+
+function matchesTrailer(parsed: ParsedCommitMessageI, trailer: string): boolean {
+  const [token, ...rest] = trailer.split(":");
+  const value = rest.join(":").trim()
+    .toLowerCase();
+  const values = commitFooters(parsed, token.trim());
+
+  if (value.length === 0) return values.length > 0;
+
+  return values.some(item => item.toLowerCase() === value);
+}
+
+/**
+ * Checks if the commit matches all the conditions of the rule.
+ * The paths condition matches when all the changed files are under the paths in the exclude rules, and when any of them
+ * is in the include rules (as the `paths-ignore` and `paths` workflow filters).
+ */
+async function matchesRule(candidate: CandidateI, rule: CommitFilterI, exclude: boolean): Promise<boolean> {
+  const { commit, parsed } = candidate;
+  const { author, flag, message, paths, scope, trailer, type } = rule;
+
+  if (author != null) {
+    const identities = [commit.author.login, commit.author.name, commit.author.email];
+
+    if (!author.some(item => identities.includes(item))) return false;
+  }
+
+  if (message != null && !message.test(commit.message)) return false;
+
+  if (type != null && (parsed == null || !type.includes(parsed.type))) return false;
+
+  if (scope != null && (parsed == null || !splitList(parsed.scope).some(item => scope.includes(item)))) return false;
+
+  if (flag != null && (parsed == null || !parsed.flags.some(item => flag.includes(item)))) return false;
+
+  if (trailer != null && (parsed == null || !trailer.some(item => matchesTrailer(parsed, item)))) return false;
+
+  if (paths != null) {
+    const normalized = paths.map(path => path.replace(/^\.\/|\/+$/g, ""));
+
+    const files = await listCommitFiles(commit.sha);
+
+    return exclude
+      ? files.length > 0 && files.every(file => isUnderPaths(file, normalized))
+      : files.some(file => isUnderPaths(file, normalized));
+  }
+
+  return true;
+}
+
+async function matchesAny(candidate: CandidateI, rules: CommitFilterI[], exclude: boolean): Promise<boolean> {
+  // eslint-disable-next-line no-await-in-loop
+  for (const rule of rules) if (await matchesRule(candidate, rule, exclude)) return true;
+
+  return false;
+}
+
+/**
+ * Filters the commits out with the commit filters input: the commits matching any of the exclude rules are omitted,
+ * and so are the ones matching none of the include rules (if any).
+ */
+export async function filterCommits(commits: CommitI[]): Promise<CommitI[]> {
+  const { exclude, include } = commitFilters();
+
+  if (exclude.length === 0 && include.length === 0) return commits;
+
+  const filtered: CommitI[] = [];
+
+  for (const commit of commits) {
+    let parsed: ParsedCommitMessageI | null = null;
+
+    try {
+      parsed = parseCommitMessage(commit.message);
+    } catch {
+      // The conditions relying on the parsed message won't match
+    }
+
+    const candidate: CandidateI = {
+      commit,
+      parsed,
+    };
+
+    // eslint-disable-next-line no-await-in-loop
+    if (await matchesAny(candidate, exclude, true)) continue;
+
+    // eslint-disable-next-line no-await-in-loop
+    if (include.length > 0 && !await matchesAny(candidate, include, false)) continue;
+
+    filtered.push(commit);
+  }
+
+  info(`🔍 [CHANGELOG] Commits filtered out: ${ commits.length - filtered.length }`);
+
+  return filtered;
+}
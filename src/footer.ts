@@ -24,78 +24,80 @@
  */
 
 import { info } from "@actions/core";
-import { marked } from "marked";
+import { type ChangelogI } from "./changelog.js";
+import {
+  type ContributorI,
+  listContributors,
+  newContributors,
+  type NewContributorI,
+} from "./contributors.js";
+import { releaseStats, type ReleaseStatsI } from "./stats.js";
 import {
   includeCompareLink,
   mentionNewContributors,
-  octokit,
   parseSemVer,
   releaseName,
-  releaseNamePrefix,
   repository,
   semver,
+  tagPattern,
+  VERSION_PLACEHOLDER,
   sha,
+  SHORT_SHA_LENGTH,
   useGithubAutolink,
 } from "./utils/index.js";
 
-export async function generateFooter(previousTagName?: string, previousSha?: string): Promise<string> {
-  const { owner, repo, url } = repository();
+export async function generateFooter(changelog: ChangelogI): Promise<FooterI> {
+  const { url } = repository();
   const tagName = releaseName();
+  const previousTagName = changelog.previous?.name;
+  const previousSha = changelog.previous?.sha;
 
-  const footer: string[] = [];
-
-
-  if (mentionNewContributors()) {
-    const { rest } = octokit();
-
-    const { data } = await rest.repos.generateReleaseNotes({
-      owner,
-      repo,
-      tag_name         : tagName,
-      previous_tag_name: previousTagName,
-    });
-
-    const tokens = marked.lexer(data.body);
-
-    // eslint-disable-next-line max-len
-    const index = tokens.findIndex(markdownToken => markdownToken.type === "heading" && markdownToken.text === "New Contributors");
+  const footer: FooterI = {
+    compareLink    : null,
+    compareUrl     : null,
+    contributors   : listContributors(changelog),
+    newContributors: [],
+    stats          : await releaseStats(changelog),
+  };
 
-    const markdownToken = tokens[index + 1];
+  if (mentionNewContributors()) footer.newContributors = await newContributors(changelog);
 
-    if (markdownToken.type === "list") footer.push(`## New Contributors\n${ markdownToken.raw }\n`);
-  }
-
-  if (includeCompareLink() && (previousTagName || previousSha)) {
+  if (previousTagName || previousSha) {
     // Check if we're dealing with a prerelease
     const isPrerelease = semver() ? (parseSemVer()?.prerelease.length ?? 0) > 0 : false;
-    let link: string;
+    let text: string;
 
     if (isPrerelease && previousSha) {
       // For prereleases, always use SHA-based comparison
       info(`📊 [CHANGELOG] Using SHA-based comparison for prerelease`);
-      link = `${url}/compare/${encodeURIComponent(previousSha)}...${encodeURIComponent(sha())}`;
-
-      if (!useGithubAutolink() || releaseNamePrefix()) {
-        link = `[${previousSha.substring(0, 7)}...${sha().substring(0, 7)}](${link})`;
-      }
+      footer.compareUrl = `${url}/compare/${encodeURIComponent(previousSha)}...${encodeURIComponent(sha())}`;
+      text = `${ previousSha.substring(0, SHORT_SHA_LENGTH) }...${ sha().substring(0, SHORT_SHA_LENGTH) }`;
     } else if (previousTagName) {
       // For regular releases, use tag-based comparison
       info(`📊 [CHANGELOG] Using tag-based comparison for regular release`);
-      link = `${url}/compare/${encodeURIComponent(previousTagName)}...${encodeURIComponent(tagName)}`;
-
-      if (!useGithubAutolink() || releaseNamePrefix()) {
-        link = `[${previousTagName}...${tagName}](${link})`;
-      }
+      footer.compareUrl = `${url}/compare/${encodeURIComponent(previousTagName)}...${encodeURIComponent(tagName)}`;
+      text = `${previousTagName}...${tagName}`;
     } else {
       // Fallback in case we don't have a previous reference
       info(`📊 [CHANGELOG] No previous reference available for comparison link`);
-      return footer.join("\n\n");
+      return footer;
     }
 
-    footer.push(`**Full Changelog**: ${link}`);
+    if (includeCompareLink()) {
+      // GitHub only autolinks the compare URLs of the plain version tags
+      footer.compareLink = !useGithubAutolink() || tagPattern() !== VERSION_PLACEHOLDER
+        ? `[${ text }](${ footer.compareUrl })`
+        : footer.compareUrl;
+    }
   }
 
-  if (footer.length > 0) footer.unshift("");
+  return footer;
+}
 
-  return footer.join("\n\n");
+export interface FooterI {
+  compareLink: string | null;
+  compareUrl: string | null;
+  contributors: ContributorI[];
+  newContributors: NewContributorI[];
+  stats: ReleaseStatsI;
 }
@@ -24,23 +24,91 @@
  */
 
 import { setFailed } from "@actions/core";
+import { bumpVersion } from "./bump.js";
+import { updateChangelogFile } from "./changelog-file.js";
+import { generateChangelogJson } from "./changelog-json.js";
 import { generateChangelog } from "./changelog.js";
+import { readConfigFile } from "./config.js";
 import { generateFooter } from "./footer.js";
-import { getTagInfo } from "./tag.js";
-import { setChangelog, setPrerelease, setReleaseId } from "./utils/index.js";
+import { publishRelease } from "./release.js";
+import { renderChangelog } from "./render.js";
+import { getTagInfo, pushTag } from "./tag.js";
+import {
+  bump,
+  createRelease,
+  createTag,
+  setBreakingChanges,
+  setBumpType,
+  setChangelog,
+  setChangelogJson,
+  setCommitCount,
+  setContributors,
+  setGithubReleaseId,
+  setNewContributors,
+  setNextVersion,
+  setPrerelease,
+  setReleaseId,
+  setReleaseUrl,
+  setStats,
+  setTagName,
+  setTagSha,
+} from "./utils/index.js";
 
 async function run(): Promise<void> {
-  const { prerelease, releaseId, previous } = await getTagInfo();
+  await readConfigFile();
+
+  if (bump()) {
+    const { bumpType, name } = await bumpVersion();
+
+    setNextVersion(name);
+
+    setBumpType(bumpType);
+  }
+
+  const tagInfo = await getTagInfo();
+  const { prerelease, releaseId } = tagInfo;
 
   setPrerelease(prerelease);
 
   setReleaseId(releaseId);
 
-  let changelog = await generateChangelog(previous?.sha);
+  const changelog = await generateChangelog(tagInfo);
+
+  setCommitCount(changelog.commitCount);
+
+  const footer = await generateFooter(changelog);
+
+  setContributors(JSON.stringify(footer.contributors));
+
+  setNewContributors(JSON.stringify(footer.newContributors));
+
+  setStats(JSON.stringify(footer.stats));
+
+  const { breakingChanges, changelog: body } = await renderChangelog(changelog, footer);
+
+  setBreakingChanges(breakingChanges);
+
+  setChangelog(body);
+
+  await updateChangelogFile(body);
+
+  setChangelogJson(await generateChangelogJson(changelog, footer, tagInfo));
+
+  if (createTag()) {
+    const { name, sha } = await pushTag(body);
+
+    setTagName(name);
+
+    setTagSha(sha);
+  }
+
+  if (!createRelease()) return;
+
+  const { id, url } = await publishRelease(body, prerelease);
 
-  changelog += await generateFooter(previous?.name, previous?.sha);
+  setGithubReleaseId(id);
 
-  setChangelog(changelog);
+  setReleaseUrl(url);
 }
 
 run().catch(setFailed);
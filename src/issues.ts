@@ -0,0 +1,115 @@
+/*
+ * MIT License
+ *
+ * Copyright (c) 2023 Ardalan Amini
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ *
+ */
+
+import { escapeRegExp, issueTrackers, KEY_PLACEHOLDER, repository } from "./utils/index.js";
+
+const GITHUB_REFERENCE = "(?:[\\w.-]+\\/[\\w.-]+)?#\\d+";
+
+const GITHUB_REFERENCE_REGEX = /^(?:(?<owner>[\w.-]+)\/(?<repo>[\w.-]+))?#(?<number>\d+)$/;
+
+const CLOSING_KEYWORD = "\\b(?:close[sd]?|fix(?:e[sd])?|resolve[sd]?)\\b:?\\s+";
+
+function trackerReference(): string | null {
+  const prefixes = Object.keys(issueTrackers());
+
+  if (prefixes.length === 0) return null;
+
+  return `\\b(?:${ prefixes.map(escapeRegExp).join("|") })-\\d+\\b`;
+}
+
+/**
+ * Resolves the reference key (e.g. `#45`, `owner/repo#12` or `PROJ-1234`) to the issue.
+ */
+function toIssue(key: string, closing: boolean): IssueReferenceI {
+  const groups = GITHUB_REFERENCE_REGEX.exec(key)?.groups;
+
+  if (groups == null) {
+    const [prefix] = key.split("-");
+
+    return {
+      closing,
+      key,
+      tracker: prefix,
+      url    : issueTrackers()[prefix].replace(KEY_PLACEHOLDER, key),
+    };
+  }
+
+  const { owner, repo, serverUrl } = repository();
+  const isSameRepository = !groups.owner
+    || `${ groups.owner }/${ groups.repo }`.toLowerCase() === `${ owner }/${ repo }`.toLowerCase();
+  const path = isSameRepository ? `${ owner }/${ repo }` : `${ groups.owner }/${ groups.repo }`;
+
+  return {
+    closing,
+    key    : isSameRepository ? `#${ groups.number }` : key,
+    tracker: null,
+    url    : `${ serverUrl }/${ path }/issues/${ groups.number }`,
+  };
+}
+
+/**
+ * Extracts the issues referenced by the commit message: the ones following the closing keywords
+ * (e.g. `Closes #45` or `Fixes owner/repo#12, PROJ-1234`) and the issue tracker keys anywhere else.
+ */
+export function extractIssues(message: string): IssueReferenceI[] {
+  const tracker = trackerReference();
+  const reference = tracker == null ? GITHUB_REFERENCE : `${ GITHUB_REFERENCE }|${ tracker }`;
+  const closingRegex = new RegExp(`${ CLOSING_KEYWORD }((?:${ reference })(?:\\s*(?:,|and)\\s*(?:${ reference }))*)`, "gi");
+  const referenceRegex = new RegExp(reference, "g");
+
+  const issues: IssueReferenceI[] = [];
+
+  const add = (key: string, closing: boolean): void => {
+    const issue = toIssue(key, closing);
+    const existing = issues.find(item => item.key === issue.key);
+
+    if (existing == null) issues.push(issue);
+    else existing.closing ||= closing;
+  };
+
+  const closed = [...message.matchAll(closingRegex)]
+    .flatMap(([, references]) => references.match(referenceRegex) ?? []);
+
+  for (const key of closed) add(key, true);
+
+  if (tracker != null) for (const [key] of message.matchAll(new RegExp(tracker, "g"))) add(key, false);
+
+  return issues;
+}
+
+export interface IssueReferenceI {
+
+  /**
+   * Whether the commit closes the issue (using a closing keyword).
+   */
+  closing: boolean;
+  key: string;
+
+  /**
+   * The issue tracker prefix, null for the GitHub issues.
+   */
+  tracker: string | null;
+  url: string;
+}
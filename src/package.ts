@@ -0,0 +1,73 @@
+/*
+ * MIT License
+ *
+ * Copyright (c) 2023 Ardalan Amini
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ *
+ */
+
+import { listCommitFiles } from "./compare.js";
+import { type CommitI } from "./providers/index.js";
+import {
+  packageName,
+  packagePaths,
+  tagPattern,
+  tagVersion,
+  VERSION_PLACEHOLDER,
+} from "./utils/index.js";
+
+/**
+ * Checks if the package mode is enabled, which requires a tag pattern telling the package tags apart.
+ */
+function isPackageMode(): boolean {
+  if (packageName().length === 0 && packagePaths().length === 0) return false;
+
+  if (tagPattern() === VERSION_PLACEHOLDER) throw new Error(`Expected "tag-pattern" or "release-name-prefix" input in package mode (to tell the package tags apart), got the "${ VERSION_PLACEHOLDER }" pattern instead.`);
+
+  return true;
+}
+
+/**
+ * Checks if the tag belongs to the package (matching the tag pattern) in package mode.
+ */
+export function isPackageTag(tagName: string): boolean {
+  if (!isPackageMode()) return true;
+
+  return tagVersion(tagName) != null;
+}
+
+/**
+ * Checks if the commit belongs to the package (scoped with its name or touching its paths) in package mode.
+ */
+export async function isPackageCommit(commit: CommitI, scope: string): Promise<boolean> {
+  if (!isPackageMode()) return true;
+
+  const name = packageName();
+
+  if (name.length > 0 && scope.split(",").some(item => item.trim() === name)) return true;
+
+  const paths = packagePaths();
+
+  if (paths.length === 0) return false;
+
+  const files = await listCommitFiles(commit.sha);
+
+  return files.some(file => paths.some(path => file === path || file.startsWith(`${ path }/`)));
+}
@@ -0,0 +1,140 @@
+/*
+ * MIT License
+ *
+ * Copyright (c) 2023 Ardalan Amini
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ *
+ */
+
+import { git, noreplyLogin, sha } from "../utils/index.js";
+import {
+  type CommitAuthorI,
+  type CommitI,
+  type DiffStatsI,
+  type HistoryProviderI,
+  type TagI,
+} from "./history-provider.js";
+
+const FIELD_SEPARATOR = "\x1f";
+
+const RECORD_SEPARATOR = "\x1e";
+
+const COMMIT_FORMAT = `--format=${ ["%H", "%T", "%P", "%cI", "%an", "%ae", "%B"].join("%x1f") }%x1e`;
+
+const TAG_FORMAT = "--format=%(refname:strip=2)%1f%(objectname)%1f%(*objectname)";
+
+function parseCommits(stdout: string): CommitI[] {
+  return stdout
+    .split(RECORD_SEPARATOR)
+    .map(record => record.trim())
+    .filter(record => record.length > 0)
+    .map((record) => {
+      const [commitSha, tree, parents, date, name, email, message] = record.split(FIELD_SEPARATOR);
+
+      return {
+        author: {
+          email,
+          login: noreplyLogin(email),
+          name,
+        },
+        date,
+        message: message.trim(),
+        parents: parents.split(" ").filter(parent => parent.length > 0),
+        sha    : commitSha,
+        tree,
+      };
+    });
+}
+
+async function compareCommits(base: string, head: string): Promise<CommitI[]> {
+  return parseCommits(await git("log", "--reverse", COMMIT_FORMAT, `${ base }..${ head }`));
+}
+
+async function diffStats(base: string, head: string): Promise<DiffStatsI> {
+  const stats: DiffStatsI = {
+    additions: 0,
+    deletions: 0,
+    files    : 0,
+  };
+
+  for (const line of (await git("diff", "--numstat", base, head)).split("\n")) {
+    if (line.length === 0) continue;
+
+    // The binary files are reported with "-" instead of the line counts
+    const [additions, deletions] = line.split("\t");
+
+    stats.additions += +additions || 0;
+    stats.deletions += +deletions || 0;
+    stats.files++;
+  }
+
+  return stats;
+}
+
+async function getCommit(ref: string): Promise<CommitI> {
+  const [commit] = parseCommits(await git("log", "-1", COMMIT_FORMAT, `${ ref }^{commit}`));
+
+  return commit;
+}
+
+async function listCommits(): Promise<CommitI[]> {
+  return parseCommits(await git("log", COMMIT_FORMAT, sha()));
+}
+
+async function listFiles(commitSha: string): Promise<string[]> {
+  const stdout = await git("diff-tree", "--no-commit-id", "--name-only", "-r", "--root", commitSha);
+
+  return stdout.split("\n").filter(line => line.length > 0);
+}
+
+async function *listTags(): AsyncIterable<TagI> {
+  const stdout = await git("for-each-ref", "--sort=-v:refname", TAG_FORMAT, "refs/tags");
+
+  for (const line of stdout.split("\n")) {
+    if (line.length === 0) continue;
+
+    const [name, objectSha, commitSha] = line.split(FIELD_SEPARATOR);
+
+    yield {
+      name,
+      sha: commitSha || objectSha,
+    };
+  }
+}
+
+async function hasContributed(author: CommitAuthorI, ref: string): Promise<boolean> {
+  const identity = author.email ?? author.login ?? author.name;
+
+  if (identity == null) return true;
+
+  const stdout = await git("log", "-1", "--format=%H", "--fixed-strings", `--author=${ identity }`, ref);
+
+  return stdout.trim().length > 0;
+}
+
+export const gitProvider: HistoryProviderI = {
+  compareCommits,
+  diffStats,
+  getCommit,
+  hasContributed,
+  listCommits,
+  listFiles,
+  listTags,
+};
@@ -0,0 +1,247 @@
+/*
+ * MIT License
+ *
+ * Copyright (c) 2023 Ardalan Amini
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ *
+ */
+
+import { info, warning } from "@actions/core";
+import { type GitHub } from "@actions/github/lib/utils.js";
+import { octokit, repository } from "../utils/index.js";
+import {
+  type CommitAuthorI,
+  type CommitI,
+  type DiffStatsI,
+  type HistoryProviderI,
+  type TagI,
+} from "./history-provider.js";
+
+const PER_PAGE = 100;
+
+/**
+ * The maximum number of changed files listed by the compare API.
+ */
+const MAX_COMPARE_FILES = 300;
+
+type ListCommitsT = InstanceType<typeof GitHub>["rest"]["repos"]["listCommits"];
+
+type CommitT = Awaited<ReturnType<ListCommitsT>>["data"][number];
+
+function toCommit(commit: CommitT): CommitI {
+  return {
+    author: {
+      email: commit.commit.author?.email,
+      login: commit.author?.login,
+      name : commit.commit.author?.name,
+    },
+    date   : commit.commit.committer?.date ?? "",
+    message: commit.commit.message,
+    parents: commit.parents.map(parent => parent.sha),
+    sha    : commit.sha,
+    tree   : commit.commit.tree.sha,
+  };
+}
+
+/**
+ * Walks the commits from head (newest first) until the base SHA is reached.
+ */
+async function listCommitsUntil(base: string, head: string): Promise<CommitI[]> {
+  const { paginate, rest } = octokit();
+  const { owner, repo } = repository();
+
+  const commits: CommitI[] = [];
+
+  const iterator = paginate.iterator(rest.repos.listCommits, {
+    owner,
+    repo,
+    per_page: PER_PAGE,
+    sha     : head,
+  });
+
+  loop: for await (const { data } of iterator) {
+    for (const commit of data) {
+      if (commit.sha === base) break loop;
+
+      commits.push(toCommit(commit));
+    }
+  }
+
+  return commits.reverse();
+}
+
+/**
+ * Returns all the commits between base and head (oldest first), paging through the compare API
+ * and falling back to walking the history in case the compare API doesn't return all the commits.
+ */
+async function compareCommits(base: string, head: string): Promise<CommitI[]> {
+  const { rest } = octokit();
+  const { owner, repo } = repository();
+
+  let commits: CommitI[] = [];
+  let totalCommits = 0;
+
+  for (let page = 1; ; page++) {
+    // eslint-disable-next-line no-await-in-loop
+    const { data } = await rest.repos.compareCommits({
+      owner,
+      repo,
+      base,
+      head,
+      page,
+      per_page: PER_PAGE,
+    });
+
+    totalCommits = data.total_commits;
+
+    commits.push(...data.commits.map(toCommit));
+
+    if (data.commits.length < PER_PAGE || commits.length >= totalCommits) break;
+  }
+
+  if (commits.length < totalCommits) {
+    info(`Compare API returned ${ commits.length } of ${ totalCommits } commits, walking the history instead...`);
+
+    commits = await listCommitsUntil(base, head);
+  }
+
+  if (commits.length !== totalCommits) warning(`Expected ${ totalCommits } commits, got ${ commits.length } instead.`);
+
+  return commits;
+}
+
+/**
+ * Sums the changed files of the compare API (which lists up to 300 files, warning about the partial statistics).
+ */
+async function diffStats(base: string, head: string): Promise<DiffStatsI> {
+  const { rest } = octokit();
+  const { owner, repo } = repository();
+
+  const { data } = await rest.repos.compareCommits({
+    owner,
+    repo,
+    base,
+    head,
+    per_page: 1,
+  });
+
+  const files = data.files ?? [];
+
+  if (files.length >= MAX_COMPARE_FILES) warning(`Expected the compare API to list every changed file, got the first ${ MAX_COMPARE_FILES } only (the diff statistics are partial).`);
+
+  return {
+    additions: files.reduce((total, file) => total + file.additions, 0),
+    deletions: files.reduce((total, file) => total + file.deletions, 0),
+    files    : files.length,
+  };
+}
+
+async function getCommit(ref: string): Promise<CommitI> {
+  const { rest } = octokit();
+  const { owner, repo } = repository();
+
+  const { data } = await rest.repos.getCommit({
+    owner,
+    repo,
+    ref,
+  });
+
+  return toCommit(data);
+}
+
+async function listCommits(): Promise<CommitI[]> {
+  const { paginate, rest } = octokit();
+  const { owner, repo } = repository();
+
+  const commits = await paginate(rest.repos.listCommits, {
+    owner,
+    repo,
+    per_page: PER_PAGE,
+  });
+
+  return commits.map(toCommit);
+}
+
+async function listFiles(ref: string): Promise<string[]> {
+  const { paginate, rest } = octokit();
+  const { owner, repo } = repository();
+
+  const iterator = paginate.iterator(rest.repos.getCommit, {
+    owner,
+    repo,
+    ref,
+    per_page: PER_PAGE,
+  });
+
+  const files: string[] = [];
+
+  for await (const { data } of iterator) files.push(...(data.files ?? []).flatMap(file => file.filename ?? []));
+
+  return files;
+}
+
+async function *listTags(): AsyncIterable<TagI> {
+  const { paginate, rest } = octokit();
+  const { owner, repo } = repository();
+
+  const iterator = paginate.iterator(rest.repos.listTags, {
+    owner,
+    repo,
+    per_page: PER_PAGE,
+  });
+
+  for await (const { data } of iterator) {
+    for (const { name, commit } of data) {
+      yield {
+        name,
+        sha: commit.sha,
+      };
+    }
+  }
+}
+
+async function hasContributed(author: CommitAuthorI, ref: string): Promise<boolean> {
+  const { rest } = octokit();
+  const { owner, repo } = repository();
+  const identity = author.login ?? author.email;
+
+  // The commits can only be filtered by login or email
+  if (identity == null) return true;
+
+  const { data } = await rest.repos.listCommits({
+    owner,
+    repo,
+    author  : identity,
+    sha     : ref,
+    per_page: 1,
+  });
+
+  return data.length > 0;
+}
+
+export const githubProvider: HistoryProviderI = {
+  compareCommits,
+  diffStats,
+  getCommit,
+  hasContributed,
+  listCommits,
+  listFiles,
+  listTags,
+};
@@ -0,0 +1,96 @@
+/*
+ * MIT License
+ *
+ * Copyright (c) 2023 Ardalan Amini
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ *
+ */
+
+export interface TagI {
+  name: string;
+  sha: string;
+}
+
+export interface CommitAuthorI {
+  email?: string;
+  login?: string;
+  name?: string;
+}
+
+export interface CommitI {
+  author: CommitAuthorI;
+
+  /**
+   * The committer date (ISO 8601).
+   */
+  date: string;
+  message: string;
+  parents: string[];
+  sha: string;
+  tree: string;
+}
+
+/**
+ * Provides the repository history (tags & commits) used to generate the changelog.
+ */
+export interface HistoryProviderI {
+
+  /**
+   * Returns all the commits between base and head (oldest first).
+   */
+  compareCommits(base: string, head: string): Promise<CommitI[]>;
+
+  /**
+   * Returns the number of files changed and the lines added & deleted between base and head.
+   */
+  diffStats(base: string, head: string): Promise<DiffStatsI>;
+
+  /**
+   * Returns the commit the given ref (SHA, tag or branch) points to, peeling the annotated tags.
+   */
+  getCommit(ref: string): Promise<CommitI>;
+
+  /**
+   * Checks if the author has any commit in the history of the given ref (matched by login, email or name).
+   */
+  hasContributed(author: CommitAuthorI, ref: string): Promise<boolean>;
+
+  /**
+   * Returns all the accessible commits (newest first).
+   */
+  listCommits(): Promise<CommitI[]>;
+
+  /**
+   * Returns the paths of the files changed by the given commit.
+   */
+  listFiles(sha: string): Promise<string[]>;
+
+  /**
+   * Iterates over the tags, latest first.
+   */
+  listTags(): AsyncIterable<TagI>;
+
+}
+
+export interface DiffStatsI {
+  additions: number;
+  deletions: number;
+  files: number;
+}
@@ -0,0 +1,124 @@
+/*
+ * MIT License
+ *
+ * Copyright (c) 2023 Ardalan Amini
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ *
+ */
+
+import { info } from "@actions/core";
+import { type CommitI } from "./providers/index.js";
+import { octokit, repository } from "./utils/index.js";
+
+const BATCH_SIZE = 50;
+
+const PULL_REQUESTS_FRAGMENT = `
+fragment pullRequests on Commit {
+  associatedPullRequests(first: 5) {
+    nodes {
+      number
+      title
+      mergedAt
+      author { login }
+      mergedBy { login }
+      labels(first: 100) { nodes { name } }
+    }
+  }
+}`;
+
+interface PullRequestNodeI {
+  author: { login: string } | null;
+  labels: { nodes: Array<{ name: string }> };
+  mergedAt: string | null;
+  mergedBy: { login: string } | null;
+  number: number;
+  title: string;
+}
+
+interface CommitNodeI {
+  associatedPullRequests: { nodes: PullRequestNodeI[] };
+}
+
+interface QueryResultI {
+  repository: Record<string, CommitNodeI | null>;
+}
+
+/**
+ * Builds the query of the batch, each commit being aliased by its index.
+ */
+function buildQuery(shas: string[]): string {
+  const objects = shas.map((commitSha, index) => `c${ index }: object(oid: "${ commitSha }") { ...pullRequests }`);
+
+  return `query($owner: String!, $repo: String!) {
+  repository(owner: $owner, name: $repo) {
+    ${ objects.join("\n    ") }
+  }
+}
+${ PULL_REQUESTS_FRAGMENT }`;
+}
+
+function toPullRequest(node: PullRequestNodeI): PullRequestI {
+  return {
+    author  : node.author?.login ?? null,
+    labels  : node.labels.nodes.map(label => label.name),
+    mergedBy: node.mergedBy?.login ?? null,
+    number  : node.number,
+    title   : node.title,
+  };
+}
+
+/**
+ * Fetches the pull requests associated with the commits (preferring the merged ones) in batches, keyed by commit SHA.
+ */
+export async function associatedPullRequests(commits: CommitI[]): Promise<Map<string, PullRequestI>> {
+  const { graphql } = octokit();
+  const { owner, repo } = repository();
+  const pullRequests = new Map<string, PullRequestI>;
+
+  info(`Fetching the pull requests of ${ commits.length } commits`);
+
+  for (let index = 0; index < commits.length; index += BATCH_SIZE) {
+    const shas = commits.slice(index, index + BATCH_SIZE).map(commit => commit.sha);
+
+    // eslint-disable-next-line no-await-in-loop
+    const { repository: objects } = await graphql<QueryResultI>(buildQuery(shas), {
+      owner,
+      repo,
+    });
+
+    shas.forEach((commitSha, position) => {
+      const nodes = objects[`c${ position }`]?.associatedPullRequests.nodes ?? [];
+
+      const node = nodes.find(item => item.mergedAt != null) ?? nodes.at(0);
+
+      if (node != null) pullRequests.set(commitSha, toPullRequest(node));
+    });
+  }
+
+  return pullRequests;
+}
+
+export interface PullRequestI {
+  author: string | null;
+  labels: string[];
+  mergedBy: string | null;
+  number: number;
+  title: string | null;
+}
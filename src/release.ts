@@ -0,0 +1,102 @@
+/*
+ * MIT License
+ *
+ * Copyright (c) 2023 Ardalan Amini
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ *
+ */
+
+import { info } from "@actions/core";
+import { octokit, releaseDraft, releaseMakeLatest, releaseName, repository, sha } from "./utils/index.js";
+
+/**
+ * Finds the release of the given tag, including the draft ones (which aren't accessible by tag).
+ */
+async function findRelease(tagName: string): Promise<{ id: number } | null> {
+  const { paginate, rest } = octokit();
+  const { owner, repo } = repository();
+
+  const iterator = paginate.iterator(rest.repos.listReleases, {
+    owner,
+    repo,
+    per_page: 100,
+  });
+
+  for await (const { data } of iterator) {
+    const release = data.find(item => item.tag_name === tagName);
+
+    if (release != null) return release;
+  }
+
+  return null;
+}
+
+export async function publishRelease(body: string, prerelease: boolean): Promise<ReleaseI> {
+  const { rest } = octokit();
+  const { owner, repo } = repository();
+  const tagName = releaseName();
+  const draft = releaseDraft();
+
+  const release = await findRelease(tagName);
+
+  const params = {
+    owner,
+    repo,
+    body,
+
+    // Drafts and prereleases can't be set as the latest release
+    make_latest: draft || prerelease ? "false" : releaseMakeLatest(),
+    prerelease,
+  };
+
+  if (release == null) {
+    info(`Creating release ${ tagName }`);
+
+    const { data } = await rest.repos.createRelease({
+      ...params,
+      draft,
+      name            : tagName,
+      tag_name        : tagName,
+      target_commitish: sha(),
+    });
+
+    return {
+      id : data.id,
+      url: data.html_url,
+    };
+  }
+
+  info(`Updating release ${ tagName } (${ release.id })`);
+
+  const { data } = await rest.repos.updateRelease({
+    ...params,
+    release_id: release.id,
+  });
+
+  return {
+    id : data.id,
+    url: data.html_url,
+  };
+}
+
+export interface ReleaseI {
+  id: number;
+  url: string;
+}
@@ -0,0 +1,288 @@
+/*
+ * MIT License
+ *
+ * Copyright (c) 2023 Ardalan Amini
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ *
+ */
+
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import Mustache from "mustache";
+import { type ChangelogI, type LogI } from "./changelog.js";
+import { type ContributorI, type NewContributorI } from "./contributors.js";
+import { type FooterI } from "./footer.js";
+import { type IssueReferenceI } from "./issues.js";
+import { type ReleaseStatsI } from "./stats.js";
+import { DEFAULT_TEMPLATE, PARTIALS } from "./templates.js";
+import {
+  breakingChangesTitle,
+  includeStats,
+  inlineBreakingMarker,
+  mentionContributors,
+  newContributorsTitle,
+  releaseName,
+  repository,
+  resolvedIssuesTitle,
+  SHORT_SHA_LENGTH,
+  template,
+  templateFile,
+  useGithubAutolink,
+  workspace,
+} from "./utils/index.js";
+
+interface LogViewI extends LogI {
+  breakingChangeLines: string[];
+  referencesText: string;
+}
+
+interface BreakingChangeViewI extends LogViewI {
+  scope: string;
+}
+
+interface ContributorViewI extends ContributorI {
+  commitsText: string;
+  mention?: string;
+}
+
+interface StatsViewI extends ReleaseStatsI {
+  commitsText: string;
+  daysSincePreviousText: string | null;
+  filesText: string | null;
+  previous: string | null;
+  pullRequestsText: string;
+}
+
+interface ResolvedIssueViewI {
+  description: string;
+  key: string;
+
+  /**
+   * The issue key, linked unless GitHub autolinks it.
+   */
+  link: string;
+  url: string;
+}
+
+interface NewContributorViewI extends NewContributorI {
+  mention?: string;
+
+  /**
+   * The link to the first pull request (or commit) of the contributor.
+   */
+  reference: string;
+}
+
+/**
+ * Links the issue, unless GitHub autolinks it (GitHub issues only).
+ */
+function issueLink(issue: IssueReferenceI): string {
+  if (issue.tracker == null && useGithubAutolink()) return issue.key;
+
+  return `[${ issue.key }](${ issue.url })`;
+}
+
+/**
+ * Formats the issues as `closes #45, #46, PROJ-1234`, the non-closing issues (tracker keys) coming last.
+ */
+function issuesText(issues: IssueReferenceI[]): string[] {
+  const closing = issues.filter(issue => issue.closing).map(issueLink);
+  const others = issues.filter(issue => !issue.closing).map(issueLink);
+
+  return closing.length > 0 ? [`closes ${ closing.join(", ") }`, ...others] : others;
+}
+
+function logView(log: LogI): LogViewI {
+  return {
+    ...log,
+    breakingChangeLines: log.breakingChanges.flatMap(breakingChange => breakingChange.split("\n"))
+      .map(line => line.trim()),
+    referencesText: [...log.references, ...issuesText(log.issues)].join(", "),
+  };
+}
+
+function plural(count: number, noun: string): string {
+  return `${ count } ${ noun }${ count === 1 ? "" : "s" }`;
+}
+
+function mention({ email, login, name }: ContributorI | NewContributorI): string | undefined {
+  return login == null ? name ?? email : `@${ login }`;
+}
+
+/**
+ * Mentions the contributors along with their commit counts (none unless mention-contributors is enabled).
+ */
+function contributorsView(contributors: ContributorI[]): ContributorViewI[] {
+  if (!mentionContributors()) return [];
+
+  return contributors.map(contributor => ({
+    ...contributor,
+    commitsText: plural(contributor.commits, "commit"),
+    mention    : mention(contributor),
+  }));
+}
+
+/**
+ * Adds the pluralized texts to the release statistics (null unless include-stats is enabled).
+ */
+function statsView(stats: ReleaseStatsI, previous: string | undefined): StatsViewI | null {
+  if (!includeStats()) return null;
+
+  const { additions, daysSincePrevious, deletions, files } = stats;
+
+  return {
+    ...stats,
+    additions            : additions ?? 0,
+    commitsText          : plural(stats.commits, "commit"),
+    daysSincePreviousText: daysSincePrevious == null || previous == null ? null : plural(daysSincePrevious, "day"),
+    deletions            : deletions ?? 0,
+    filesText            : files == null ? null : plural(files, "file"),
+    previous             : previous ?? null,
+    pullRequestsText     : plural(stats.pullRequests, "pull request"),
+  };
+}
+
+/**
+ * Mentions the new contributors, referencing their first pull request (or commit).
+ */
+function newContributorsView(contributors: NewContributorI[]): NewContributorViewI[] {
+  const { url } = repository();
+  const shouldUseGithubAutolink = useGithubAutolink();
+
+  return contributors.map((contributor) => {
+    const { pullRequest, sha } = contributor;
+
+    let reference: string;
+
+    if (pullRequest == null) reference = shouldUseGithubAutolink ? sha : `[${ sha.substring(0, SHORT_SHA_LENGTH) }](${ url }/commit/${ sha })`;
+    else reference = shouldUseGithubAutolink ? `#${ pullRequest }` : `[#${ pullRequest }](${ url }/issues/${ pullRequest })`;
+
+    return {
+      ...contributor,
+      mention: mention(contributor),
+      reference,
+    };
+  });
+}
+
+/**
+ * Lists the issues closed by the logs, along with the description of the first closing log.
+ */
+function resolvedIssuesView(types: ChangelogI["types"]): ResolvedIssueViewI[] {
+  if (resolvedIssuesTitle().length === 0) return [];
+
+  const issues = new Map<string, ResolvedIssueViewI>;
+  const logs = types.flatMap(({ scopes }) => scopes.flatMap(scope => scope.logs));
+
+  for (const log of logs) {
+    for (const issue of log.issues) {
+      if (!issue.closing || issues.has(issue.key)) continue;
+
+      issues.set(issue.key, {
+        description: log.description,
+        key        : issue.key,
+        link       : issueLink(issue),
+        url        : issue.url,
+      });
+    }
+  }
+
+  return [...issues.values()];
+}
+
+async function loadTemplate(): Promise<string> {
+  const inline = template();
+  const path = templateFile();
+
+  if (inline.length > 0 && path.length > 0) throw new Error("Expected either template or template-file, got both.");
+
+  if (path.length > 0) return readFile(join(workspace(), path), "utf8");
+
+  return inline || DEFAULT_TEMPLATE;
+}
+
+/**
+ * Builds the view passed to the templates.
+ */
+function view(changelog: ChangelogI, footer: FooterI): Record<string, unknown> {
+  const title = breakingChangesTitle();
+
+  const types = changelog.types.map(({ title: typeTitle, scopes }) => ({
+    scopes: scopes.map(({ scope, logs }) => ({
+      logs: logs.map(logView),
+      scope,
+    })),
+    title: typeTitle,
+  }));
+
+  const breakingChanges: BreakingChangeViewI[] = [];
+
+  for (const { scopes } of types) {
+    for (const { scope, logs } of scopes) {
+      for (const log of logs) {
+        if (title.length === 0 || !log.breaking) continue;
+
+        breakingChanges.push({
+          ...log,
+          scope,
+        });
+      }
+    }
+  }
+
+  return {
+    breakingChanges,
+    commitCount    : changelog.commitCount,
+    compareLink    : footer.compareLink,
+    contributors   : contributorsView(footer.contributors),
+    issues         : resolvedIssuesView(changelog.types),
+    newContributors: newContributorsView(footer.newContributors),
+    notice         : changelog.notice,
+    options        : {
+      breakingChangesTitle: title,
+      inlineBreakingMarker: inlineBreakingMarker(),
+      newContributorsTitle: newContributorsTitle(),
+      resolvedIssuesTitle : resolvedIssuesTitle(),
+    },
+    stats  : statsView(footer.stats, changelog.previous?.name),
+    types,
+    version: releaseName(),
+  };
+}
+
+function render(content: string, context: Record<string, unknown>): string {
+  const rendered = Mustache.render(content, context, PARTIALS, { escape: value => `${ value }` }).trim();
+
+  return rendered.length > 0 ? `${ rendered }\n` : "";
+}
+
+export async function renderChangelog(changelog: ChangelogI, footer: FooterI): Promise<RenderedChangelogI> {
+  const context = view(changelog, footer);
+
+  return {
+    breakingChanges: render("{{> breakingChanges}}", context),
+    changelog      : render(await loadTemplate(), context),
+  };
+}
+
+export interface RenderedChangelogI {
+  breakingChanges: string;
+  changelog: string;
+}
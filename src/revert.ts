@@ -0,0 +1,95 @@
+/*
+ * MIT License
+ *
+ * Copyright (c) 2023 Ardalan Amini
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ *
+ */
+
+import { info } from "@actions/core";
+import { type CommitI } from "./providers/index.js";
+import { parseCommitMessage } from "./utils/index.js";
+
+/**
+ * Returns the reverted commit (within the commits) of each revert commit.
+ */
+function mapReverts(commits: CommitI[]): Map<string, string> {
+  const reverts = new Map<string, string>;
+
+  for (const commit of commits) {
+    let parsed;
+
+    try {
+      parsed = parseCommitMessage(commit.message);
+    } catch {
+      continue;
+    }
+
+    const { reverts: reverted } = parsed;
+
+    if (reverted == null) continue;
+
+    const target = commits.find(item => item.sha.startsWith(reverted));
+
+    if (target != null) reverts.set(commit.sha, target.sha);
+  }
+
+  return reverts;
+}
+
+/**
+ * Returns the commits cancelling each other out within the commits: the reverted commits along with their reverts.
+ * A commit is effective unless reverted by an effective commit, so the revert of a revert brings the commit back.
+ */
+export function cancelledCommits(commits: CommitI[]): Set<string> {
+  const reverts = mapReverts(commits);
+  const effective = new Map<string, boolean>;
+
+  const isEffective = (sha: string): boolean => {
+    let result = effective.get(sha);
+
+    if (result != null) return result;
+
+    result = true;
+
+    for (const [revert, reverted] of reverts) if (reverted === sha && isEffective(revert)) result = false;
+
+    effective.set(sha, result);
+
+    return result;
+  };
+
+  const cancelled = new Set<string>;
+
+  for (const [revert, reverted] of reverts) {
+    if (!isEffective(revert)) continue;
+
+    cancelled.add(revert);
+
+    cancelled.add(reverted);
+  }
+
+  // The reverts of the reverts are cancelled as well, leaving the original commit effective
+  for (const revert of reverts.keys()) if (!isEffective(revert)) cancelled.add(revert);
+
+  if (cancelled.size > 0) info(`🔍 [CHANGELOG] Commits cancelled out by reverts: ${ cancelled.size }`);
+
+  return cancelled;
+}
@@ -0,0 +1,98 @@
+/*
+ * MIT License
+ *
+ * Copyright (c) 2023 Ardalan Amini
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ *
+ */
+
+import { type ChangelogI } from "./changelog.js";
+import { resolveCommit } from "./compare.js";
+import { provider } from "./providers/index.js";
+import { includeStats, parseCommitMessage, sha } from "./utils/index.js";
+
+const DAY_MILLISECONDS = 86_400_000;
+
+function countPullRequests(changelog: ChangelogI): number {
+  const numbers = new Set<number>;
+
+  for (const commit of changelog.commits) {
+    const pullRequest = changelog.pullRequests.get(commit.sha);
+
+    if (pullRequest != null) {
+      numbers.add(pullRequest.number);
+
+      continue;
+    }
+
+    try {
+      const { pr } = parseCommitMessage(commit.message);
+
+      if (pr) numbers.add(+pr);
+    } catch {
+      // The commits failing to parse don't reference any pull request
+    }
+  }
+
+  return numbers.size;
+}
+
+/**
+ * Computes the release statistics, the diff & cadence ones requiring a previous tag and the include-stats input.
+ */
+export async function releaseStats(changelog: ChangelogI): Promise<ReleaseStatsI> {
+  const stats: ReleaseStatsI = {
+    additions        : null,
+    commits          : changelog.commits.length,
+    daysSincePrevious: null,
+    deletions        : null,
+    files            : null,
+    pullRequests     : countPullRequests(changelog),
+  };
+
+  const { previous } = changelog;
+
+  if (previous == null || !includeStats()) return stats;
+
+  const [diff, previousCommit, currentCommit] = await Promise.all([
+    provider().diffStats(previous.sha, sha()),
+    resolveCommit(previous.sha),
+    resolveCommit(sha()),
+  ]);
+
+  stats.additions = diff.additions;
+  stats.deletions = diff.deletions;
+  stats.files = diff.files;
+
+  const elapsed = Date.parse(currentCommit.date) - Date.parse(previousCommit.date);
+
+  if (!Number.isNaN(elapsed)) stats.daysSincePrevious = Math.floor(elapsed / DAY_MILLISECONDS);
+
+  return stats;
+}
+
+export interface ReleaseStatsI {
+  additions: number | null;
+  commits: number;
+  daysSincePrevious: number | null;
+  deletions: number | null;
+  files: number | null;
+  pullRequests: number;
+}
@@ -25,29 +25,117 @@
 
 import { debug, info } from "@actions/core";
 import { type SemVer } from "semver";
-import { octokit, parseSemVer, releaseName, repository, semver, sha } from "./utils/index.js";
+import { resolveCommit } from "./compare.js";
+import { isPackageTag } from "./package.js";
+import { provider, type TagI } from "./providers/index.js";
+import {
+  aggregatePrereleases,
+  fromRef,
+  octokit,
+  parseSemVer,
+  previousTagStrategy,
+  type PreviousTagStrategyT,
+  releaseName,
+  repository,
+  semver,
+  sha,
+  tagDryRun,
+  tagPattern,
+  tagType,
+  tagVersion,
+} from "./utils/index.js";
 
-export interface TagInfoI {
-  prerelease: boolean;
+const NOT_FOUND_STATUS = 404;
 
-  previous?: {
-    name: string;
-    sha: string;
+/**
+ * Resolves the commit the existing tag points at (peeling the annotated tags), null if the tag doesn't exist.
+ */
+async function findTag(tagName: string): Promise<PushedTagI & { commitSha: string } | null> {
+  const { rest } = octokit();
+  const { owner, repo } = repository();
+
+  let object;
+
+  try {
+    const { data } = await rest.git.getRef({
+      owner,
+      repo,
+      ref: `tags/${ tagName }`,
+    });
+
+    object = data.object;
+  } catch (error) {
+    if ((error as { status?: number }).status === NOT_FOUND_STATUS) return null;
+
+    throw error;
+  }
+
+  let commitSha = object.sha;
+
+  if (object.type === "tag") {
+    const { data } = await rest.git.getTag({
+      owner,
+      repo,
+      tag_sha: object.sha,
+    });
+
+    commitSha = data.object.sha;
+  }
+
+  return {
+    commitSha,
+    name: tagName,
+    sha : object.sha,
   };
+}
 
-  releaseId: string;
+/**
+ * Resolves the strategy, the explicit from-ref overrides the previous tag strategy.
+ */
+function resolveStrategy(): PreviousTagStrategyT {
+  const strategy = previousTagStrategy();
+
+  if (fromRef().length > 0) return "explicit";
+
+  if (strategy === "explicit") throw new Error('Expected "from-ref" input for the explicit previous-tag-strategy.');
+
+  return strategy;
 }
 
-export async function getTagInfo(): Promise<TagInfoI> {
-  const { paginate, rest } = octokit();
-  const { owner, repo } = repository();
+/**
+ * Lists the semver tags of the package, sorted from the newest version (the tags aren't listed in the semver order).
+ */
+export async function listVersionTags(): Promise<VersionTagI[]> {
+  const tags: VersionTagI[] = [];
 
+  for await (const tag of provider().listTags()) {
+    const version = isPackageTag(tag.name) ? parseSemVer(tag.name) : null;
+
+    if (version != null) {
+      tags.push({
+        ...tag,
+        version,
+      });
+    }
+  }
+
+  return tags.sort((a, b) => b.version.compare(a.version));
+}
+
+export async function getTagInfo(): Promise<TagInfoI> {
   const tagInfo: TagInfoI = {
-    releaseId : "latest",
-    prerelease: false,
+    releaseId  : "latest",
+    prerelease : false,
+    prereleases: [],
+    strategy   : resolveStrategy(),
   };
 
   let semVer: SemVer | null = null;
+  let previousVersion: SemVer | null = null;
+
+  const prereleases: Array<TagI & { version: SemVer }> = [];
+
+  if (tagVersion(releaseName()) == null) throw new Error(`Expected release-name "${ releaseName() }" to match the tag pattern "${ tagPattern() }".`);
 
   if (semver()) {
     semVer = parseSemVer();
@@ -69,95 +157,137 @@ export async function getTagInfo(): Promise<TagInfoI> {
     if (tagInfo.prerelease) tagInfo.releaseId = `${ semVer.prerelease[0] }`;
   }
 
-  const iterator = paginate.iterator(
-    rest.repos.listTags,
-    {
-      per_page: 100,
-      owner,
-      repo,
-    },
-  );
+  // Stable releases aggregating the prereleases are compared against the previous stable release
+  const aggregate = semVer != null && !tagInfo.prerelease && tagInfo.strategy !== "explicit" && aggregatePrereleases();
+
+  if (aggregate) tagInfo.strategy = "previous-stable";
 
   info(`🔍 [CHANGELOG] Current commit SHA: ${sha()}`);
-  info(`🔍 [CHANGELOG] Starting tag comparison...`);
 
-  loop: for await (const { data } of iterator) {
-    for (const { name, commit } of data) {
-      info(`🔍 [CHANGELOG] Analyzing tag: ${name} (SHA: ${commit.sha})`);
+  if (tagInfo.strategy === "explicit") {
+    const ref = fromRef();
+    const commit = await resolveCommit(ref);
 
-      if (sha() === commit.sha) {
-        info(`🔍 [CHANGELOG] Skipping tag with same SHA as current`);
-        continue;
-      }
+    info(`🔍 [CHANGELOG] Using the explicit previous ref: ${ ref } (SHA: ${ commit.sha })`);
 
-      if (semVer == null) {
-        info(`🔍 [CHANGELOG] No semver mode - selecting first available tag`);
-        tagInfo.previous = {
-          name,
-          sha: commit.sha,
-        };
+    tagInfo.previous = {
+      name: ref,
+      sha : commit.sha,
+    };
 
-        break loop;
-      }
+    return tagInfo;
+  }
 
-      const version = parseSemVer(name);
+  info(`🔍 [CHANGELOG] Starting tag comparison (${ tagInfo.strategy })...`);
 
-      if (version == null) {
-        info(`🔍 [CHANGELOG] Tag ${name} is not a valid semver format, skipping`);
-        continue;
-      }
+  // In semver mode, the tags are compared from the newest version so that the previous tag is the closest one
+  const tags = semVer == null ? provider().listTags() : await listVersionTags();
 
-      if (semVer.compare(version) <= 0) {
-        info(`🔍 [CHANGELOG] Tag ${name} is not older than current version, skipping`);
-        continue;
-      }
+  for await (const { name, sha: commitSha } of tags) {
+    info(`🔍 [CHANGELOG] Analyzing tag: ${name} (SHA: ${commitSha})`);
+
+    if (!isPackageTag(name)) {
+      info(`🔍 [CHANGELOG] Tag ${ name } doesn't belong to the package, skipping`);
+      continue;
+    }
+
+    if (sha() === commitSha) {
+      info(`🔍 [CHANGELOG] Skipping tag with same SHA as current`);
+      continue;
+    }
+
+    if (semVer == null) {
+      info(`🔍 [CHANGELOG] No semver mode - selecting first available tag`);
+      tagInfo.previous = {
+        name,
+        sha: commitSha,
+      };
+
+      break;
+    }
+
+    const version = parseSemVer(name);
+
+    if (version == null) {
+      info(`🔍 [CHANGELOG] Tag ${name} is not a valid semver format, skipping`);
+      continue;
+    }
 
-      // Check if prerelease suffixes are compatible
-      const currentHasPrerelease = semVer.prerelease.length > 0;
-      const versionHasPrerelease = version.prerelease.length > 0;
+    if (semVer.compare(version) <= 0) {
+      info(`🔍 [CHANGELOG] Tag ${name} is not older than current version, skipping`);
+      continue;
+    }
+
+    // Check if prerelease suffixes are compatible
+    const currentHasPrerelease = semVer.prerelease.length > 0;
+    const versionHasPrerelease = version.prerelease.length > 0;
 
-      info(`🔍 [CHANGELOG] Comparing prereleases: Current=${
-        currentHasPrerelease ? semVer.prerelease[0] : "none"
-      }, Tag=${
-        versionHasPrerelease ? version.prerelease[0] : "none"
-      }`);
+    info(`🔍 [CHANGELOG] Comparing prereleases: Current=${
+      currentHasPrerelease ? semVer.prerelease[0] : "none"
+    }, Tag=${
+      versionHasPrerelease ? version.prerelease[0] : "none"
+    }`);
+
+    if (tagInfo.strategy === "previous-any") {
+      // Any older tag can be selected, regardless of its channel
+    } else if (tagInfo.strategy === "previous-stable") {
+      if (versionHasPrerelease) {
+        if (aggregate) {
+          prereleases.push({
+            name,
+            sha: commitSha,
+            version,
+          });
+        }
 
+        info(`🔍 [CHANGELOG] Tag has prerelease but only stable tags are considered, skipping`);
+        continue;
+      }
+    } else if (currentHasPrerelease) {
       // If current version has a prerelease suffix (e.g., v1.0.1-develop)
-      if (currentHasPrerelease) {
-        // When looking for a tag with prerelease (e.g., v1.0.1-develop),
-        // we only want to compare with other tags having the same first prerelease identifier
-        // For example, v1.0.0-develop should only be compared with other v*-develop tags
-        if (versionHasPrerelease) {
-          // Check if prerelease suffix is different (e.g., "develop" vs "beta")
-          if (semVer.prerelease[0] !== version.prerelease[0]) {
-            info(`🔍 [CHANGELOG] Different prerelease identifier, skipping`);
-            continue; // Skip tags with different suffixes
-          }
-        } else {
-          // If current version has prerelease but the analyzed tag doesn't,
-          // we skip it (unless we want to include stable releases as base)
-          info(`🔍 [CHANGELOG] Current version has prerelease but tag doesn't, skipping`);
-          continue;
+      // When looking for a tag with prerelease (e.g., v1.0.1-develop),
+      // we only want to compare with other tags having the same first prerelease identifier
+      // For example, v1.0.0-develop should only be compared with other v*-develop tags
+      if (versionHasPrerelease) {
+        // Check if prerelease suffix is different (e.g., "develop" vs "beta")
+        if (semVer.prerelease[0] !== version.prerelease[0]) {
+          info(`🔍 [CHANGELOG] Different prerelease identifier, skipping`);
+          continue; // Skip tags with different suffixes
         }
       } else {
-        // If current version is stable (no prerelease),
-        // we ignore tags with prerelease as before
-        if (versionHasPrerelease) {
-          info(`🔍 [CHANGELOG] Current version is stable but tag has prerelease, skipping`);
-          continue;
-        }
+        // If current version has prerelease but the analyzed tag doesn't,
+        // we skip it (unless we want to include stable releases as base)
+        info(`🔍 [CHANGELOG] Current version has prerelease but tag doesn't, skipping`);
+        continue;
       }
+    } else {
+      // If current version is stable (no prerelease),
+      // we ignore tags with prerelease as before
+      if (versionHasPrerelease) {
+        info(`🔍 [CHANGELOG] Current version is stable but tag has prerelease, skipping`);
+        continue;
+      }
+    }
 
-      info(`🔍 [CHANGELOG] Selected as previous tag: ${name}`);
-      tagInfo.previous = {
-        name,
-        sha: commit.sha,
-      };
+    info(`🔍 [CHANGELOG] Selected as previous tag: ${name}`);
+    tagInfo.previous = {
+      name,
+      sha: commitSha,
+    };
+    previousVersion = version;
 
-      break loop;
-    }
+    break;
   }
 
+  // The prereleases since the previous stable release (oldest first)
+  tagInfo.prereleases = prereleases
+    .filter(tag => previousVersion == null || tag.version.compare(previousVersion) > 0)
+    .sort((a, b) => a.version.compare(b.version))
+    .map(({ name, sha: commitSha }) => ({
+      name,
+      sha: commitSha,
+    }));
+
   if (tagInfo.previous) {
     info(`🔍 [CHANGELOG] Final selection - Previous tag: ${tagInfo.previous.name} (SHA: ${tagInfo.previous.sha})`);
   } else {
@@ -166,3 +296,92 @@ export async function getTagInfo(): Promise<TagInfoI> {
 
   return tagInfo;
 }
+
+/**
+ * Creates the release tag at the current commit, unless it already exists.
+ */
+export async function pushTag(message: string): Promise<PushedTagI> {
+  const { rest } = octokit();
+  const { owner, repo } = repository();
+  const tagName = releaseName();
+  const commitSha = sha();
+  const type = tagType();
+
+  const existing = await findTag(tagName);
+
+  if (existing != null) {
+    if (existing.commitSha !== commitSha) throw new Error(`Expected tag "${ tagName }" to point at ${ commitSha }, got ${ existing.commitSha } instead.`);
+
+    info(`Tag ${ tagName } already exists`);
+
+    return {
+      name: tagName,
+      sha : existing.sha,
+    };
+  }
+
+  if (tagDryRun()) {
+    info(`[dry-run] Creating ${ type } tag ${ tagName } at ${ commitSha }`);
+
+    return {
+      name: tagName,
+      sha : type === "lightweight" ? commitSha : "",
+    };
+  }
+
+  info(`Creating ${ type } tag ${ tagName } at ${ commitSha }`);
+
+  let objectSha = commitSha;
+
+  if (type === "annotated") {
+    const { data } = await rest.git.createTag({
+      owner,
+      repo,
+      message,
+      object: commitSha,
+      tag   : tagName,
+      type  : "commit",
+    });
+
+    objectSha = data.sha;
+  }
+
+  await rest.git.createRef({
+    owner,
+    repo,
+    ref: `refs/tags/${ tagName }`,
+    sha: objectSha,
+  });
+
+  return {
+    name: tagName,
+    sha : objectSha,
+  };
+}
+
+export interface PushedTagI {
+  name: string;
+  sha: string;
+}
+
+export interface TagInfoI {
+  prerelease: boolean;
+
+  /**
+   * The prereleases aggregated into the stable release (oldest first).
+   */
+  prereleases: TagI[];
+
+  previous?: {
+    name: string;
+    sha: string;
+  };
+
+  releaseId: string;
+
+  strategy: PreviousTagStrategyT;
+}
+
+export interface VersionTagI extends TagI {
+  version: SemVer;
+}
@@ -0,0 +1,124 @@
+/*
+ * MIT License
+ *
+ * Copyright (c) 2023 Ardalan Amini
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ *
+ */
+
+/**
+ * The default partials, available to the custom templates as well (e.g. `{{> types}}`).
+ */
+export const PARTIALS: Record<string, string> = {
+  breakingChange: [
+    "* {{#scope}}**{{.}}:** {{/scope}}{{description}}{{#referencesText}} ({{.}}){{/referencesText}}",
+    "{{#breakingChangeLines}}",
+    "  >{{#.}} {{.}}{{/.}}",
+    "{{/breakingChangeLines}}",
+  ].join("\n"),
+  breakingChanges: [
+    "{{#breakingChanges.length}}",
+    "## {{options.breakingChangesTitle}}",
+    "{{#breakingChanges}}",
+    "{{> breakingChange}}",
+    "{{/breakingChanges}}",
+    "",
+    "{{/breakingChanges.length}}",
+  ].join("\n"),
+  footer: [
+    "{{#contributors.length}}",
+    "## Contributors",
+    "{{#contributors}}",
+    "* {{mention}} ({{commitsText}})",
+    "{{/contributors}}",
+    "",
+    "{{/contributors.length}}",
+    "{{#newContributors.length}}",
+    "## {{options.newContributorsTitle}}",
+    "{{#newContributors}}",
+    "* {{mention}} made their first contribution in {{reference}}",
+    "{{/newContributors}}",
+    "",
+    "{{/newContributors.length}}",
+    "{{#stats}}",
+    "## Stats",
+    "* {{commitsText}}, {{pullRequestsText}}",
+    "{{#filesText}}",
+    "* {{.}} changed (+{{additions}} / -{{deletions}})",
+    "{{/filesText}}",
+    "{{#daysSincePreviousText}}",
+    "* {{.}} since {{previous}}",
+    "{{/daysSincePreviousText}}",
+    "",
+    "{{/stats}}",
+    "{{#compareLink}}",
+    "**Full Changelog**: {{.}}",
+    "{{/compareLink}}",
+  ].join("\n"),
+  issues: [
+    "{{#issues.length}}",
+    "## {{options.resolvedIssuesTitle}}",
+    "{{#issues}}",
+    "* {{link}}: {{description}}",
+    "{{/issues}}",
+    "",
+    "{{/issues.length}}",
+  ].join("\n"),
+  log: [
+    "* {{#breaking}}{{#options.inlineBreakingMarker}}***breaking:*** {{/options.inlineBreakingMarker}}{{/breaking}}"
+    + "{{description}}{{#referencesText}} ({{.}}){{/referencesText}}"
+    + "{{#prerelease}} _({{.}})_{{/prerelease}}",
+    "{{^options.breakingChangesTitle}}",
+    "{{#breakingChangeLines}}",
+    "  >{{#.}} {{.}}{{/.}}",
+    "{{/breakingChangeLines}}",
+    "{{/options.breakingChangesTitle}}",
+  ].join("\n"),
+  types: [
+    "{{#types}}",
+    "## {{title}}",
+    "{{#scopes}}",
+    "{{#scope}}",
+    "* **{{.}}:**",
+    "{{#logs}}",
+    "  {{> log}}",
+    "{{/logs}}",
+    "{{/scope}}",
+    "{{^scope}}",
+    "{{#logs}}",
+    "{{> log}}",
+    "{{/logs}}",
+    "{{/scope}}",
+    "{{/scopes}}",
+    "",
+    "{{/types}}",
+  ].join("\n"),
+};
+
+export const DEFAULT_TEMPLATE = [
+  "{{> breakingChanges}}",
+  "{{> types}}",
+  "{{> issues}}",
+  "{{#notice}}",
+  "{{.}}",
+  "",
+  "{{/notice}}",
+  "{{> footer}}",
+].join("\n");
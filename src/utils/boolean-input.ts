@@ -23,12 +23,21 @@
  *
  */
 
-import { getBooleanInput } from "@actions/core";
-import { cache } from "./cache.js";
+import { input } from "./input.js";
+
+const TRUE_VALUES = ["true", "True", "TRUE"];
+
+const FALSE_VALUES = ["false", "False", "FALSE"];
 
 export function booleanInput(
   name: string,
   required = true,
 ): boolean {
-  return cache(name, () => getBooleanInput(name, { required }));
+  return input(name, (value) => {
+    if (TRUE_VALUES.includes(value)) return true;
+
+    if (FALSE_VALUES.includes(value)) return false;
+
+    throw new TypeError(`Expected "${ name }" input to be one of ${ [...TRUE_VALUES, ...FALSE_VALUES].map(item => `"${ item }"`).join(", ") }, got "${ value }" instead.`);
+  }, required);
 }
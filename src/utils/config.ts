@@ -0,0 +1,343 @@
+/*
+ * MIT License
+ *
+ * Copyright (c) 2023 Ardalan Amini
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ *
+ */
+
+import YAML from "yaml";
+import { cache } from "./cache.js";
+
+type ConfigKindT = "boolean" | "list" | "map" | "string";
+
+interface ConfigOptionI {
+  default: string;
+  kind: ConfigKindT;
+}
+
+/**
+ * The inputs only configurable in the workflow, either defaulting to an expression or telling the empty value apart.
+ */
+const INPUT_ONLY = ["github-token", "release-name", "config-file", "breaking-changes-title", "resolved-issues-title"];
+
+/**
+ * The values clearing the list & map inputs, since an empty input falls back to the config file value & default.
+ */
+const EMPTY_VALUES: Partial<Record<ConfigKindT, string>> = {
+  list: "[]",
+  map : "{}",
+};
+
+/**
+ * The inputs configurable from the config file, with their value kinds and defaults.
+ */
+const CONFIG_SCHEMA: Record<string, ConfigOptionI> = {
+  "aggregate-prereleases": {
+    default: "false",
+    kind   : "boolean",
+  },
+  "annotate-prereleases": {
+    default: "false",
+    kind   : "boolean",
+  },
+  audience: {
+    default: "public",
+    kind   : "string",
+  },
+  bump: {
+    default: "false",
+    kind   : "boolean",
+  },
+  "bump-pre-major": {
+    default: "true",
+    kind   : "boolean",
+  },
+  "bump-prerelease-id": {
+    default: "",
+    kind   : "string",
+  },
+  "bump-types": {
+    default: "feat: minor",
+    kind   : "map",
+  },
+  "changelog-file": {
+    default: "",
+    kind   : "string",
+  },
+  "changelog-file-branch": {
+    default: "",
+    kind   : "string",
+  },
+  "changelog-file-commit": {
+    default: "false",
+    kind   : "boolean",
+  },
+  "changelog-file-marker": {
+    default: "<!-- auto-changelog -->",
+    kind   : "string",
+  },
+  "changelog-json-file": {
+    default: "",
+    kind   : "string",
+  },
+  "commit-filters": {
+    default: "",
+    kind   : "map",
+  },
+  "commit-types": {
+    default: [
+      "feat: New Features",
+      "fix: Bug Fixes",
+      "build: Build System & Dependencies",
+      "perf: Performance Improvements",
+      "docs: Documentation",
+      "test: Tests",
+      "refactor: Refactors",
+      "chore: Chores",
+      "ci: CI",
+      "style: Code Style",
+      "revert: Reverts",
+    ].join("\n"),
+    kind: "map",
+  },
+  "create-release": {
+    default: "false",
+    kind   : "boolean",
+  },
+  "create-tag": {
+    default: "false",
+    kind   : "boolean",
+  },
+  "default-commit-type": {
+    default: "Other Changes",
+    kind   : "string",
+  },
+  "empty-release": {
+    default: "placeholder",
+    kind   : "string",
+  },
+  "exclude-labels": {
+    default: "skip-changelog",
+    kind   : "list",
+  },
+  "fetch-pull-requests": {
+    default: "false",
+    kind   : "boolean",
+  },
+  "flag-types": {
+    default: "highlight: Highlights",
+    kind   : "map",
+  },
+  "from-ref": {
+    default: "",
+    kind   : "string",
+  },
+  "history-provider": {
+    default: "github",
+    kind   : "string",
+  },
+  "include-commit-links": {
+    default: "true",
+    kind   : "boolean",
+  },
+  "include-compare-link": {
+    default: "true",
+    kind   : "boolean",
+  },
+  "include-pr-links": {
+    default: "true",
+    kind   : "boolean",
+  },
+  "include-stats": {
+    default: "false",
+    kind   : "boolean",
+  },
+  "inline-breaking-marker": {
+    default: "true",
+    kind   : "boolean",
+  },
+  "issue-trackers": {
+    default: "",
+    kind   : "map",
+  },
+  "label-types": {
+    default: "",
+    kind   : "map",
+  },
+  "mention-authors": {
+    default: "true",
+    kind   : "boolean",
+  },
+  "mention-contributors": {
+    default: "false",
+    kind   : "boolean",
+  },
+  "mention-new-contributors": {
+    default: "true",
+    kind   : "boolean",
+  },
+  "new-contributors-title": {
+    default: "New Contributors",
+    kind   : "string",
+  },
+  "package-name": {
+    default: "",
+    kind   : "string",
+  },
+  "package-paths": {
+    default: "",
+    kind   : "list",
+  },
+  "previous-tag-strategy": {
+    default: "same-channel",
+    kind   : "string",
+  },
+  "release-draft": {
+    default: "false",
+    kind   : "boolean",
+  },
+  "release-make-latest": {
+    default: "true",
+    kind   : "boolean",
+  },
+  "release-name-prefix": {
+    default: "",
+    kind   : "string",
+  },
+  semver: {
+    default: "true",
+    kind   : "boolean",
+  },
+  "tag-dry-run": {
+    default: "false",
+    kind   : "boolean",
+  },
+  "tag-pattern": {
+    default: "",
+    kind   : "string",
+  },
+  "tag-type": {
+    default: "annotated",
+    kind   : "string",
+  },
+  template: {
+    default: "",
+    kind   : "string",
+  },
+  "template-file": {
+    default: "",
+    kind   : "string",
+  },
+  "unmatched-commits": {
+    default: "drop",
+    kind   : "string",
+  },
+  "use-github-autolink": {
+    default: "true",
+    kind   : "boolean",
+  },
+};
+
+/**
+ * Validates the config value against its kind and converts it to the input string format.
+ */
+function toInputValue(value: unknown, kind: ConfigKindT): string | null {
+  switch (kind) {
+    case "boolean":
+      return typeof value === "boolean" ? String(value) : null;
+    case "list":
+      if (typeof value === "string") return value;
+
+      return Array.isArray(value) && value.every(item => typeof item === "string") ? value.join("\n") : null;
+    case "map":
+      return value != null && typeof value === "object" && !Array.isArray(value) ? YAML.stringify(value) : null;
+    default:
+      return typeof value === "string" || typeof value === "number" ? String(value) : null;
+  }
+}
+
+export const DEFAULT_CONFIG_FILE = ".github/changelog.yml";
+
+/**
+ * Returns the default value of the input, if configurable from the config file.
+ */
+export function defaultInput(name: string): string | undefined {
+  return (CONFIG_SCHEMA[name] as ConfigOptionI | undefined)?.default;
+}
+
+/**
+ * Whether the input value explicitly clears the list or map input (`[]` or `{}`).
+ */
+export function isEmptyInput(name: string, value: string): boolean {
+  const option = CONFIG_SCHEMA[name] as ConfigOptionI | undefined;
+
+  return option != null && EMPTY_VALUES[option.kind] === value.trim();
+}
+
+/**
+ * Returns the loaded config file path and values (converted to the input string format).
+ */
+export function config(): ConfigI | null {
+  return cache<ConfigI | null>("config", () => null);
+}
+
+/**
+ * Parses & validates the config file content, then sets it as the loaded config.
+ */
+export function loadConfig(file: string, content: string): ConfigI {
+  let parsed: unknown;
+
+  try {
+    parsed = YAML.parse(content) ?? {};
+  } catch (error) {
+    throw new Error(`Failed to parse ${ file }: ${ error instanceof Error ? error.message : String(error) }`);
+  }
+
+  if (typeof parsed !== "object" || parsed == null || Array.isArray(parsed)) throw new Error(`Expected ${ file } to contain a map of options, got ${ JSON.stringify(parsed) } instead.`);
+
+  const values: Record<string, string> = {};
+
+  for (const [key, value] of Object.entries(parsed)) {
+    const option = CONFIG_SCHEMA[key] as ConfigOptionI | undefined;
+
+    if (option == null) {
+      throw new Error(`Unknown option "${ key }" in ${ file }, expected one of the action inputs except ${
+        INPUT_ONLY.map(item => `"${ item }"`).join(", ")
+      }.`);
+    }
+
+    const inputValue = toInputValue(value, option.kind);
+
+    if (inputValue == null) throw new Error(`Expected "${ key }" in ${ file } to be a ${ option.kind }, got ${ JSON.stringify(value) } instead.`);
+
+    values[key] = inputValue;
+  }
+
+  return cache("config", () => ({
+    file,
+    values,
+  }), true);
+}
+
+export interface ConfigI {
+  file: string;
+  values: Record<string, string>;
+}
@@ -27,10 +27,17 @@ export * from "./inputs/index.js";
 export * from "./outputs/index.js";
 export * from "./boolean-input.js";
 export * from "./cache.js";
+export * from "./config.js";
+export * from "./enum-input.js";
+export * from "./escape-reg-exp.js";
+export * from "./git.js";
 export * from "./input.js";
+export * from "./noreply-login.js";
 export * from "./octokit.js";
 export * from "./output.js";
 export * from "./parse-commit-message.js";
 export * from "./parse-semver.js";
 export * from "./repository.js";
 export * from "./sha.js";
+export * from "./tag-version.js";
+export * from "./workspace.js";
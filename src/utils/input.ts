@@ -25,11 +25,39 @@
 
 import { getInput } from "@actions/core";
 import { cache } from "./cache.js";
+import { config, defaultInput, isEmptyInput } from "./config.js";
 
+/**
+ * Returns the parsed input, falling back to the config file value then to the default value.
+ * An empty input is the same as an unset one, while `[]` & `{}` clear the list & map inputs.
+ */
 export function input<T = string>(
   name: string,
   parser: (value: string) => T = (value): T => value as T,
   required = true,
 ): T {
-  return cache(name, () => parser(getInput(name, { required })));
+  return cache(name, () => {
+    const value = getInput(name);
+
+    if (isEmptyInput(name, value)) return parser("");
+
+    if (value.length > 0) return parser(value);
+
+    const loaded = config();
+    const configured = loaded?.values[name];
+
+    if (loaded != null && configured != null) {
+      try {
+        return parser(configured);
+      } catch (error) {
+        throw new Error(`Invalid "${ name }" in ${ loaded.file }: ${ error instanceof Error ? error.message : String(error) }`);
+      }
+    }
+
+    const fallback = defaultInput(name) ?? "";
+
+    if (required && fallback.length === 0) throw new Error(`Input required and not supplied: ${ name }`);
+
+    return parser(fallback);
+  });
 }
@@ -0,0 +1,50 @@
+/*
+ * MIT License
+ *
+ * Copyright (c) 2023 Ardalan Amini
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ *
+ */
+
+import YAML from "yaml";
+import { input } from "../input.js";
+
+/**
+ * Ordered from the lowest to the highest.
+ */
+export const BUMP_TYPES = ["patch", "minor", "major"] as const;
+
+export type BumpTypeT = typeof BUMP_TYPES[number];
+
+export function bumpTypes(): Record<string, BumpTypeT> {
+  return input("bump-types", (value) => {
+    const types: Record<string, string> = YAML.parse(value) ?? {};
+
+    for (const [type, bumpType] of Object.entries(types)) {
+      if (BUMP_TYPES.includes(bumpType as BumpTypeT)) continue;
+
+      throw new Error(`Expected the bump type of "${ type }" to be one of ${
+        BUMP_TYPES.map(item => `"${ item }"`).join(", ")
+      }, got "${ bumpType }" instead.`);
+    }
+
+    return types as Record<string, BumpTypeT>;
+  });
+}
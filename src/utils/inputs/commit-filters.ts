@@ -0,0 +1,118 @@
+/*
+ * MIT License
+ *
+ * Copyright (c) 2023 Ardalan Amini
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ *
+ */
+
+import YAML from "yaml";
+import { input } from "../input.js";
+
+const LIST_KEYS = ["author", "flag", "paths", "scope", "trailer", "type"] as const;
+
+const RULE_KEYS = [...LIST_KEYS, "message"];
+
+type ListKeyT = typeof LIST_KEYS[number];
+
+function toList(value: unknown, path: string): string[] {
+  const items: unknown[] = Array.isArray(value) ? value : [value];
+
+  return items.map((item) => {
+    if (typeof item === "string" || typeof item === "number") return String(item).trim();
+
+    throw new Error(`Expected "${ path }" to be a string or a list of strings, got ${ JSON.stringify(item) } instead.`);
+  });
+}
+
+function toRegExp(value: unknown, path: string): RegExp {
+  if (typeof value !== "string") throw new Error(`Expected "${ path }" to be a regular expression string, got ${ JSON.stringify(value) } instead.`);
+
+  try {
+    return new RegExp(value, "m");
+  } catch (error) {
+    throw new Error(`Expected "${ path }" to be a valid regular expression: ${ error instanceof Error ? error.message : String(error) }`);
+  }
+}
+
+function parseRule(rule: unknown, path: string): CommitFilterI {
+  if (rule == null || typeof rule !== "object" || Array.isArray(rule)) throw new Error(`Expected "${ path }" to be a map of conditions, got ${ JSON.stringify(rule) } instead.`);
+
+  const filter: CommitFilterI = {};
+
+  for (const [key, value] of Object.entries(rule)) {
+    if (key === "message") {
+      filter.message = toRegExp(value, `${ path }.${ key }`);
+
+      continue;
+    }
+
+    if (!RULE_KEYS.includes(key)) {
+      throw new Error(`Unknown condition "${ path }.${ key }", expected one of ${
+        RULE_KEYS.map(item => `"${ item }"`).join(", ")
+      }.`);
+    }
+
+    filter[key as ListKeyT] = toList(value, `${ path }.${ key }`);
+  }
+
+  if (Object.keys(filter).length === 0) throw new Error(`Expected "${ path }" to contain at least one condition.`);
+
+  return filter;
+}
+
+function parseRules(rules: unknown, path: string): CommitFilterI[] {
+  if (rules == null) return [];
+
+  if (!Array.isArray(rules)) throw new Error(`Expected "${ path }" to be a list of rules, got ${ JSON.stringify(rules) } instead.`);
+
+  return rules.map((rule, index) => parseRule(rule, `${ path }[${ index }]`));
+}
+
+export function commitFilters(): CommitFiltersI {
+  return input("commit-filters", (value) => {
+    const filters: Record<string, unknown> = YAML.parse(value) ?? {};
+
+    for (const key of Object.keys(filters)) if (key !== "exclude" && key !== "include") throw new Error(`Unknown commit filters key "${ key }", expected "exclude" or "include".`);
+
+    return {
+      exclude: parseRules(filters.exclude, "exclude"),
+      include: parseRules(filters.include, "include"),
+    };
+  }, false);
+}
+
+/**
+ * The conditions of a rule, all of them must match (a list matching any of its items).
+ */
+export interface CommitFilterI {
+  author?: string[];
+  flag?: string[];
+  message?: RegExp;
+  paths?: string[];
+  scope?: string[];
+  trailer?: string[];
+  type?: string[];
+}
+
+export interface CommitFiltersI {
+  exclude: CommitFilterI[];
+  include: CommitFilterI[];
+}
@@ -27,5 +27,5 @@ import YAML from "yaml";
 import { input } from "../input.js";
 
 export function commitTypes(): Record<string, string> {
-  return input("commit-types", value => YAML.parse(value));
+  return input("commit-types", value => YAML.parse(value) ?? {});
 }
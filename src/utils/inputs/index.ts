@@ -23,15 +23,56 @@
  *
  */
 
+export * from "./aggregate-prereleases.js";
+export * from "./annotate-prereleases.js";
+export * from "./audience.js";
+export * from "./breaking-changes-title.js";
+export * from "./bump.js";
+export * from "./bump-pre-major.js";
+export * from "./bump-prerelease-id.js";
+export * from "./bump-types.js";
+export * from "./changelog-file.js";
+export * from "./changelog-file-branch.js";
+export * from "./changelog-file-commit.js";
+export * from "./changelog-file-marker.js";
+export * from "./changelog-json-file.js";
+export * from "./commit-filters.js";
 export * from "./commit-types.js";
+export * from "./config-file.js";
+export * from "./create-release.js";
+export * from "./create-tag.js";
 export * from "./default-commit-type.js";
+export * from "./empty-release.js";
+export * from "./exclude-labels.js";
+export * from "./fetch-pull-requests.js";
+export * from "./flag-types.js";
+export * from "./from-ref.js";
+export * from "./history-provider.js";
 export * from "./include-compare-link.js";
 export * from "./include-commit-links.js";
 export * from "./include-pr-links.js";
+export * from "./include-stats.js";
+export * from "./inline-breaking-marker.js";
+export * from "./issue-trackers.js";
+export * from "./label-types.js";
 export * from "./mention-authors.js";
+export * from "./mention-contributors.js";
 export * from "./mention-new-contributors.js";
+export * from "./new-contributors-title.js";
+export * from "./package-name.js";
+export * from "./package-paths.js";
+export * from "./previous-tag-strategy.js";
+export * from "./release-draft.js";
+export * from "./release-make-latest.js";
 export * from "./release-name.js";
 export * from "./release-name-prefix.js";
+export * from "./resolved-issues-title.js";
 export * from "./semver.js";
+export * from "./tag-dry-run.js";
+export * from "./tag-pattern.js";
+export * from "./tag-type.js";
+export * from "./template.js";
+export * from "./template-file.js";
 export * from "./token.js";
+export * from "./unmatched-commits.js";
 export * from "./use-github-autolink.js";
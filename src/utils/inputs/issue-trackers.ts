@@ -0,0 +1,46 @@
+/*
+ * MIT License
+ *
+ * Copyright (c) 2023 Ardalan Amini
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ *
+ */
+
+import YAML from "yaml";
+import { input } from "../input.js";
+
+export const KEY_PLACEHOLDER = "{key}";
+
+/**
+ * Returns the issue trackers URL templates by key prefix (e.g. `PROJ: https://jira.example.com/browse/{key}`).
+ */
+export function issueTrackers(): Record<string, string> {
+  return input("issue-trackers", (value) => {
+    const trackers: Record<string, string> = YAML.parse(value) ?? {};
+
+    for (const [prefix, url] of Object.entries(trackers)) {
+      if (!/^[A-Za-z][\dA-Za-z]*$/.test(prefix)) throw new Error(`Expected the issue tracker prefix to be alphanumeric, got "${ prefix }" instead.`);
+
+      if (typeof url !== "string" || !url.includes(KEY_PLACEHOLDER)) throw new Error(`Expected the "${ prefix }" issue tracker URL to contain the ${ KEY_PLACEHOLDER } placeholder, got "${ url }" instead.`);
+    }
+
+    return trackers;
+  }, false);
+}
@@ -0,0 +1,46 @@
+/*
+ * MIT License
+ *
+ * Copyright (c) 2023 Ardalan Amini
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ *
+ */
+
+import { input } from "../input.js";
+import { releaseNamePrefix } from "./release-name-prefix.js";
+
+export const VERSION_PLACEHOLDER = "{version}";
+
+/**
+ * Returns the tag pattern, defaults to the release name prefix followed by the version placeholder.
+ */
+export function tagPattern(): string {
+  return input("tag-pattern", (value) => {
+    const prefix = releaseNamePrefix();
+
+    if (value.length === 0) return `${ prefix }${ VERSION_PLACEHOLDER }`;
+
+    if (prefix.length > 0) throw new Error("Expected either release-name-prefix or tag-pattern, got both.");
+
+    if (value.split(VERSION_PLACEHOLDER).length !== 2) throw new Error(`Expected "tag-pattern" input to contain the ${ VERSION_PLACEHOLDER } placeholder once, got "${ value }" instead.`);
+
+    return value;
+  }, false);
+}
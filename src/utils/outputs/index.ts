@@ -23,6 +23,18 @@
  *
  */
 
+export * from "./set-breaking-changes.js";
+export * from "./set-bump-type.js";
 export * from "./set-changelog.js";
+export * from "./set-changelog-json.js";
+export * from "./set-commit-count.js";
+export * from "./set-contributors.js";
+export * from "./set-github-release-id.js";
+export * from "./set-new-contributors.js";
+export * from "./set-next-version.js";
 export * from "./set-prerelease.js";
 export * from "./set-release-id.js";
+export * from "./set-release-url.js";
+export * from "./set-stats.js";
+export * from "./set-tag-name.js";
+export * from "./set-tag-sha.js";
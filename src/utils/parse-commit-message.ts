@@ -23,54 +23,164 @@
  *
  */
 
-const REGEX = /^(?<type>[^!:()]*)(?:\((?<scope>[^!()]*?)\)|)(?<breaking>!?): *(?<description>.+?) *(?:\(#(?<pr>[1-9]\d*?)\)|) *(?:\[(?<flag>[^[\]]*?)]|)\s*$/;
+const HEADER_REGEX = /^(?<type>[^!:()]*)(?:\((?<scope>[^!()]*?)\)|)(?<breaking>!?): *(?<description>.+?) *(?:\(#(?<pr>[1-9]\d*?)\)|) *(?:\[(?<flag>[^[\]]*?)]|)\s*$/;
 
-export function parseCommitMessage(message: string): ParsedCommitMessageI {
-  // Verificar se é um merge commit
-  if (message.startsWith('Merge ')) {
-    return {
-      breaking: false,
-      description: message,
-      type: '',
-      scope: '',
-      merge: true,
-      revert: false
-    };
+const FLAG_SUFFIX_REGEX = / *\[(?<flag>[^[\]]*?)]\s*$/;
+
+const FOOTER_REGEX = /^(?<token>BREAKING[ -]CHANGE|[A-Za-z][\w-]*)(?:: | (?=#))(?<value>.*)$/;
+
+const BREAKING_CHANGE_REGEX = /^BREAKING[ -]CHANGE$/;
+
+const FLAGS_TOKEN = "changelog";
+
+const REVERT_HEADER_REGEX = /^Revert "(?<header>.*)" *(?:\(#(?<pr>[1-9]\d*?)\)|)\s*$/;
+
+const REVERTED_COMMIT_REGEX = /^This reverts commit (?<sha>[\da-f]{7,40})\b/m;
+
+function splitFlags(value: string): string[] {
+  return value.split(",")
+    .map(flag => flag.trim())
+    .filter(flag => flag.length > 0);
+}
+
+/**
+ * Splits the lines following the header into body and footers.
+ * The footers are the trailing paragraphs which all start with a `token: value` (or `token #value`) pair,
+ * footer values may span multiple lines until the next token is observed.
+ */
+function parseBodyAndFooters(lines: string[]): Pick<ParsedCommitMessageI, "body" | "footers"> {
+  let footerStart = lines.length;
+
+  for (let index = lines.length - 1; index >= 0; index--) {
+    const isParagraphStart = index === 0 || lines[index - 1].trim().length === 0;
+
+    if (!isParagraphStart || lines[index].trim().length === 0) continue;
+
+    if (!FOOTER_REGEX.test(lines[index])) break;
+
+    footerStart = index;
   }
 
-  // Verificar se é um revert commit
-  if (message.startsWith('Revert "')) {
-    return {
-      breaking: false,
-      description: message,
-      type: '',
-      scope: '',
-      merge: false,
-      revert: true
-    };
+  const footers: CommitFooterI[] = [];
+
+  for (const line of lines.slice(footerStart)) {
+    const groups = FOOTER_REGEX.exec(line)?.groups;
+
+    if (groups != null) {
+      footers.push({
+        token: groups.token,
+        value: groups.value,
+      });
+
+      continue;
+    }
+
+    const footer = footers[footers.length - 1];
+
+    footer.value += `\n${ line }`;
   }
 
-  const { description, flag, pr, scope, type, breaking } = REGEX.exec(message)?.groups ?? {};
+  for (const footer of footers) footer.value = footer.value.trim();
+
+  const body = lines.slice(0, footerStart).join("\n");
 
   return {
-    breaking: !!breaking,
-    description: description || '',
-    flag,
-    pr,
-    scope: scope || '',
-    type: type || '',
-    merge: false,
-    revert: false
+    body: body.trim(),
+    footers,
   };
 }
 
+export function parseCommitMessage(message: string): ParsedCommitMessageI {
+  const [header, ...lines] = message.trim().split(/\r?\n/);
+  const { body, footers } = parseBodyAndFooters(lines);
+
+  const parsed: ParsedCommitMessageI = {
+    body,
+    breaking       : false,
+    breakingChanges: [],
+    description    : header,
+    flags          : [],
+    footers,
+    header,
+    merge          : false,
+    revert         : false,
+    scope          : "",
+    type           : "",
+  };
+
+  if (header.startsWith("Merge ")) {
+    parsed.merge = true;
+
+    return parsed;
+  }
+
+  parsed.reverts = REVERTED_COMMIT_REGEX.exec(body)?.groups?.sha;
+
+  // The git revert commits are typed as `revert`, described by the reverted commit header
+  const reverted = REVERT_HEADER_REGEX.exec(header)?.groups;
+
+  if (reverted != null) {
+    parsed.description = reverted.header;
+    parsed.pr = reverted.pr;
+    parsed.revert = true;
+    parsed.type = "revert";
+
+    return parsed;
+  }
+
+  const { description, pr, scope, type, breaking } = HEADER_REGEX.exec(header)?.groups ?? {};
+
+  // The flag suffix is parsed apart from the header, since the non-conventional subjects might be flagged as well
+  const suffix = FLAG_SUFFIX_REGEX.exec(header);
+  const flag = suffix?.groups?.flag;
+
+  const breakingChanges = footers.filter(footer => BREAKING_CHANGE_REGEX.test(footer.token));
+
+  // The flags of the subject suffix and the `Changelog: flag, ...` trailers
+  const flagFooters = footers.filter(footer => footer.token.toLowerCase() === FLAGS_TOKEN);
+  const flags = [...new Set([flag ?? "", ...flagFooters.map(footer => footer.value)].flatMap(splitFlags))];
+
+  parsed.breaking = !!breaking || breakingChanges.length > 0 || flags.includes("breaking");
+  parsed.breakingChanges = breakingChanges.map(footer => footer.value);
+  parsed.description = description || (suffix == null ? header : header.substring(0, suffix.index)).trim();
+  parsed.flag = flag;
+  parsed.flags = flags;
+  parsed.pr = pr;
+  parsed.scope = scope || "";
+  parsed.type = type || "";
+
+  return parsed;
+}
+
+/**
+ * Returns the values of the footers matching the given token (case-insensitive).
+ */
+export function commitFooters(parsed: ParsedCommitMessageI, token: string): string[] {
+  token = token.toLowerCase();
+
+  return parsed.footers
+    .filter(footer => footer.token.toLowerCase() === token)
+    .map(footer => footer.value);
+}
+
+export interface CommitFooterI {
+  token: string;
+  value: string;
+}
+
 export interface ParsedCommitMessageI {
+  body: string;
   breaking: boolean;
+  breakingChanges: string[];
   description: string;
   flag?: string;
+  flags: string[];
+  footers: CommitFooterI[];
+  header: string;
+  merge: boolean;
   pr?: string;
+  revert: boolean;
+  reverts?: string;
   scope: string;
   type: string;
-  merge: boolean;
-  revert: boolean;
 }
@@ -25,10 +25,17 @@
 
 import { parse, type SemVer } from "semver";
 import { cache } from "./cache.js";
-import { releaseName, releaseNamePrefix } from "./inputs/index.js";
+import { releaseName } from "./inputs/index.js";
+import { tagVersion } from "./tag-version.js";
 
-export function parseSemVer(version = releaseName()): SemVer | null {
-  return cache(`semver-${ version }`, () => parse(version.replace(new RegExp(`^${ releaseNamePrefix() }`), ""), { includePrerelease: true } as never));
+export function parseSemVer(tagName = releaseName()): SemVer | null {
+  return cache(`semver-${ tagName }`, () => {
+    const version = tagVersion(tagName);
+
+    if (version == null) return null;
+
+    return parse(version, { includePrerelease: true } as never);
+  });
 }
 
 export { SemVer };
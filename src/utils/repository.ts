@@ -26,13 +26,14 @@
 import { context } from "@actions/github";
 import { cache } from "./cache.js";
 
-export function repository(): { owner: string; repo: string; url: string } {
+export function repository(): { owner: string; repo: string; serverUrl: string; url: string } {
   return cache("repo", () => {
     const { repo: { owner, repo }, serverUrl } = context;
 
     return {
       owner,
       repo,
+      serverUrl,
       url: `${ serverUrl }/${ owner }/${ repo }`,
     };
   });
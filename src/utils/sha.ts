@@ -26,6 +26,11 @@
 import { context } from "@actions/github";
 import { cache } from "./cache.js";
 
+/**
+ * The length of the abbreviated commit SHAs (as displayed by GitHub).
+ */
+export const SHORT_SHA_LENGTH = 7;
+
 export function sha(): string {
   return cache("sha", () => context.sha);
 }
@@ -0,0 +1,50 @@
+/*
+ * MIT License
+ *
+ * Copyright (c) 2023 Ardalan Amini
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ *
+ */
+
+import { cache } from "./cache.js";
+import { escapeRegExp } from "./escape-reg-exp.js";
+import { tagPattern, VERSION_PLACEHOLDER } from "./inputs/index.js";
+
+function tagRegExp(): RegExp {
+  return cache("tag-regexp", () => {
+    const [prefix, suffix] = tagPattern().split(VERSION_PLACEHOLDER);
+
+    return new RegExp(`^${ escapeRegExp(prefix) }(?<version>.+)${ escapeRegExp(suffix) }$`);
+  });
+}
+
+/**
+ * Extracts the version of the tag according to the tag pattern, null if the tag doesn't match the pattern.
+ */
+export function tagVersion(tagName: string): string | null {
+  return tagRegExp().exec(tagName)?.groups?.version ?? null;
+}
+
+/**
+ * Formats the tag of the version according to the tag pattern.
+ */
+export function formatTag(version: string): string {
+  return tagPattern().replace(VERSION_PLACEHOLDER, version);
+}